@@ -0,0 +1,21 @@
+/**
+ * CLIサブコマンドの名前
+ * エントリーポイントがサービスを読み込む前に判定できるよう、サービスに依存しないモジュールに置く
+ */
+export const CLI_COMMANDS = ['scan-sensitive-data', 'check-sensitive-rules', 'audit-log'] as const;
+
+/**
+ * CLIサブコマンド名
+ */
+export type CliCommand = (typeof CLI_COMMANDS)[number];
+
+/**
+ * 指定されたサブコマンドがCLIコマンドかどうかを判定
+ * @param command - サブコマンド名
+ */
+export function isCliCommand(command: string | undefined): command is string {
+  return (
+    command !== undefined &&
+    ((CLI_COMMANDS as readonly string[]).includes(command) || command === 'help')
+  );
+}
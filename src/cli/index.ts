@@ -0,0 +1,185 @@
+/**
+ * claude-dev-recorderのCLIサブコマンド
+ * MCPサーバーを起動せずにメンテナンス操作を実行する
+ */
+
+import * as path from 'path';
+import { DocumentManager } from '../services/DocumentManager.js';
+import { VectorStore } from '../services/VectorStore.js';
+import { AuditLogger } from '../services/AuditLogger.js';
+import { ConfigManager } from '../services/ConfigManager.js';
+import { MetadataExtractor } from '../services/MetadataExtractor.js';
+import { SensitiveDataScanner } from '../services/SensitiveDataScanner.js';
+import { SensitiveDataDetector } from '../services/SensitiveDataDetector.js';
+import type { AuditLogEntry, LogFilters } from '../models/AuditLogEntry.js';
+import type { CliCommand } from './commands.js';
+
+export { isCliCommand } from './commands.js';
+
+/**
+ * 利用可能なサブコマンド
+ */
+const COMMANDS: Record<CliCommand, (args: string[]) => Promise<number>> = {
+  'scan-sensitive-data': scanSensitiveData,
+  'check-sensitive-rules': checkSensitiveRules,
+  'audit-log': auditLog,
+};
+
+/**
+ * サブコマンドを実行
+ * @param command - サブコマンド名
+ * @param args - サブコマンドの引数
+ * @returns 終了コード
+ */
+export async function runCommand(command: string, args: string[]): Promise<number> {
+  const handler = command in COMMANDS ? COMMANDS[command as CliCommand] : undefined;
+
+  if (!handler) {
+    printUsage();
+    return command === 'help' ? 0 : 1;
+  }
+
+  return await handler(args);
+}
+
+/**
+ * 使い方を表示
+ */
+function printUsage(): void {
+  console.log(`Usage: claude-dev-recorder [command] [options]
+
+Without a command, starts the MCP server on stdio.
+
+Commands:
+  scan-sensitive-data [--rewrite] [--json]
+      Scan active and archived documents for sensitive data.
+      --rewrite  Mask findings and rewrite the documents
+      --json     Print the report as JSON
+
+  check-sensitive-rules
+      Verify the built-in sensitive data rule pack against its fixtures.
+
+  audit-log [--action <action>] [--actor <actor>] [--impact <level>] [--doc-id <id>]
+            [--since <date>] [--until <date>] [--limit <n>] [--cursor <cursor>] [--json]
+      Search the audit log, including rotated archives, newest first.
+      --impact   low, medium or high
+      --doc-id   Entries whose details reference the document ID
+      --since    Entries at or after this time (ISO 8601)
+      --until    Entries at or before this time (ISO 8601)
+      --limit    Entries per page (default: 20)
+      --cursor   nextCursor printed by the previous page
+      --json     Print the page as JSON`);
+}
+
+/**
+ * scan-sensitive-dataサブコマンド
+ */
+async function scanSensitiveData(args: string[]): Promise<number> {
+  const rewrite = args.includes('--rewrite');
+  const json = args.includes('--json');
+
+  const config = ConfigManager.getInstance();
+  const auditLogger = new AuditLogger();
+  const documentManager = new DocumentManager(auditLogger);
+
+  await documentManager.initialize();
+  await auditLogger.initialize();
+
+  // 書き戻し時のみ再埋め込み用にVectorStoreを初期化（失敗しても続行）
+  let vectorStore: VectorStore | undefined;
+  if (rewrite && config.getNested('vectorStore', 'provider')) {
+    const vectorStoreConfig = config.get('vectorStore');
+    vectorStore = new VectorStore({
+      indexPath: path.resolve(process.cwd(), vectorStoreConfig.indexPath),
+      similarityThreshold: vectorStoreConfig.similarityThreshold,
+    });
+
+    try {
+      await vectorStore.initialize();
+    } catch (error) {
+      console.warn('Vector store unavailable, skipping re-embedding:', error);
+    }
+  }
+
+  const scanner = new SensitiveDataScanner(documentManager, auditLogger, vectorStore);
+  const report = await scanner.scan({
+    rewrite,
+    actor: new MetadataExtractor().getGitInfo().email,
+  });
+
+  console.log(json ? JSON.stringify(report, null, 2) : scanner.formatReport(report));
+
+  // 書き戻していない検出がある場合はCIなどで検知できるよう非ゼロで終了
+  return report.affectedDocuments.length > 0 && !rewrite ? 2 : 0;
+}
+
+/**
+ * check-sensitive-rulesサブコマンド
+ */
+function checkSensitiveRules(): Promise<number> {
+  const detector = new SensitiveDataDetector();
+  const failures = SensitiveDataDetector.verifyBuiltinRules();
+
+  console.log(`Rule pack v${detector.getRulePackVersion()}`);
+
+  if (failures.length === 0) {
+    console.log('All rule fixtures passed.');
+    return Promise.resolve(0);
+  }
+
+  for (const failure of failures) {
+    console.log(
+      `FAIL ${failure.rule}: expected ${failure.expected} for ${JSON.stringify(failure.fixture)}`
+    );
+  }
+  return Promise.resolve(1);
+}
+
+/**
+ * audit-logサブコマンド
+ */
+async function auditLog(args: string[]): Promise<number> {
+  const json = args.includes('--json');
+  const impact = getOption(args, '--impact');
+  const limit = getOption(args, '--limit');
+  const cursor = getOption(args, '--cursor');
+
+  if (impact !== undefined && !['low', 'medium', 'high'].includes(impact)) {
+    console.error(`Invalid --impact: ${impact} (expected low, medium or high)`);
+    return 1;
+  }
+  if (limit !== undefined && !(Number.isInteger(Number(limit)) && Number(limit) > 0)) {
+    console.error(`Invalid --limit: ${limit} (expected a positive integer)`);
+    return 1;
+  }
+
+  const filters: LogFilters = {};
+  const action = getOption(args, '--action');
+  const actor = getOption(args, '--actor');
+  const docId = getOption(args, '--doc-id');
+  const startDate = getOption(args, '--since');
+  const endDate = getOption(args, '--until');
+  if (action !== undefined) filters.action = action;
+  if (actor !== undefined) filters.actor = actor;
+  if (impact !== undefined) filters.impact = impact as AuditLogEntry['impact'];
+  if (docId !== undefined) filters.docId = docId;
+  if (startDate !== undefined) filters.startDate = startDate;
+  if (endDate !== undefined) filters.endDate = endDate;
+
+  const auditLogger = new AuditLogger();
+  const page = await auditLogger.searchPage(filters, {
+    ...(limit !== undefined && { limit: Number(limit) }),
+    ...(cursor !== undefined && { cursor }),
+  });
+
+  console.log(json ? JSON.stringify(page, null, 2) : auditLogger.formatPage(page));
+  return 0;
+}
+
+/**
+ * `--name value` 形式のオプションの値を取得
+ */
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
@@ -2,11 +2,30 @@
 /**
  * claude-dev-recorder MCPサーバーのエントリーポイント
  * Claude Codeとの通信用のstdioトランスポートでサーバーを起動
+ * サブコマンドが指定された場合はCLIとして実行
  */
 
-import { MCPServer } from './mcp/server.js';
+import { isCliCommand } from './cli/commands.js';
 
 async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (isCliCommand(command)) {
+    // 明示指定がなければ警告以上のみ出力
+    // ロガーはモジュールの読み込み時に生成されるため、サービスを読み込む前に設定する
+    process.env.DEBUG ??= 'warn';
+    const { runCommand } = await import('./cli/index.js');
+
+    try {
+      process.exitCode = await runCommand(command, args);
+    } catch (error) {
+      console.error(`Command failed: ${command}`, error);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  const { MCPServer } = await import('./mcp/server.js');
   const server = new MCPServer();
 
   // グレースフルシャットダウンを処理
@@ -6,16 +6,30 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { DocumentManager } from '../services/DocumentManager.js';
-import { VectorStore } from '../services/VectorStore.js';
+import { VectorStore, EmbeddingsUnavailableError } from '../services/VectorStore.js';
+import type { SearchResult } from '../services/VectorStore.js';
+import { BM25Index } from '../services/BM25Index.js';
+import { HybridRanker } from '../services/HybridRanker.js';
+import type { HybridSearchResult } from '../services/HybridRanker.js';
 import { DocumentMerger } from '../services/DocumentMerger.js';
 import { Summarizer } from '../services/Summarizer.js';
 import { AuditLogger } from '../services/AuditLogger.js';
 import { QualityManager } from '../services/QualityManager.js';
+import { ConfigManager } from '../services/ConfigManager.js';
+import { MetadataExtractor } from '../services/MetadataExtractor.js';
+import { SensitiveDataScanner } from '../services/SensitiveDataScanner.js';
+import { IntegrityChecker } from '../services/IntegrityChecker.js';
+import { RetentionPolicy, type RetentionReport } from '../services/RetentionPolicy.js';
+import { FileWatcher } from '../services/FileWatcher.js';
+import type { SyncResult } from '../services/FileWatcher.js';
 import { Logger } from '../utils/logger.js';
-import type { Document } from '../models/Document.js';
+import { LockHeldError } from '../utils/fileLock.js';
+import type { Document, FieldChange } from '../models/Document.js';
+import type { AuditLogPage, LogFilters } from '../models/AuditLogEntry.js';
 import type {
   ProjectContext,
   DocumentWithSimilarity,
+  RankedDocument,
   SearchRelatedDocsArgs,
   RecordImplementationArgs,
   ManageDocumentsArgs,
@@ -25,6 +39,13 @@ import type {
   CheckDocumentQualityArgs,
   GetDocumentHistoryArgs,
   RollbackMergeArgs,
+  ScanSensitiveDataArgs,
+  CheckIntegrityArgs,
+  AcceptManualEditArgs,
+  GetDocumentRevisionsArgs,
+  RestoreRevisionArgs,
+  ApplyRetentionPolicyArgs,
+  AuditLogArgs,
 } from './types.js';
 import {
   SearchRelatedDocsSchema,
@@ -36,6 +57,13 @@ import {
   CheckDocumentQualitySchema,
   GetDocumentHistorySchema,
   RollbackMergeSchema,
+  ScanSensitiveDataSchema,
+  CheckIntegritySchema,
+  AcceptManualEditSchema,
+  GetDocumentRevisionsSchema,
+  RestoreRevisionSchema,
+  ApplyRetentionPolicySchema,
+  AuditLogSchema,
 } from './types.js';
 import * as path from 'path';
 
@@ -47,12 +75,35 @@ export class MCPServer {
   private summarizer: Summarizer;
   private auditLogger: AuditLogger;
   private qualityManager: QualityManager;
+  private bm25Index: BM25Index;
+  private hybridRanker: HybridRanker;
+  private metadataExtractor: MetadataExtractor;
+  private sensitiveDataScanner: SensitiveDataScanner;
+  private integrityChecker: IntegrityChecker;
+  private retentionPolicy: RetentionPolicy;
+  private fileWatcher: FileWatcher;
+  private config: ConfigManager;
   private logger: Logger;
 
   // メモリキャッシュ
   private documentCache: Map<string, Document> = new Map();
   private projectContext: ProjectContext | null = null;
 
+  // アーカイブを含めた検索用のBM25インデックス（アクティブ・アーカイブのドキュメントが変わると破棄）
+  private archiveSearchIndex: { index: BM25Index; archivedDocs: Document[] } | null = null;
+  private archiveSearchVersion = 0;
+
+  // セマンティック検索（VectorStore）が利用可能か
+  private semanticSearchEnabled = false;
+
+  // 関連ファイルの変更チェック
+  private relatedFilesTimer: NodeJS.Timeout | null = null;
+  private checkingRelatedFiles = false;
+
+  // 保持ポリシーの定期適用
+  private retentionTimer: NodeJS.Timeout | null = null;
+  private applyingRetention = false;
+
   constructor() {
     this.mcpServer = new McpServer({
       name: 'claude-dev-recorder',
@@ -60,18 +111,49 @@ export class MCPServer {
     });
 
     this.logger = new Logger('MCPServer');
-    this.documentManager = new DocumentManager();
+    this.config = ConfigManager.getInstance();
+
+    const vectorStoreConfig = this.config.get('vectorStore');
     this.vectorStore = new VectorStore({
-      indexPath: path.join(process.cwd(), '.claude/docs/.index'),
+      indexPath: path.resolve(process.cwd(), vectorStoreConfig.indexPath),
+      similarityThreshold: vectorStoreConfig.similarityThreshold,
     });
     this.summarizer = new Summarizer();
     this.auditLogger = new AuditLogger();
+    this.documentManager = new DocumentManager(this.auditLogger);
     this.documentMerger = new DocumentMerger(
       this.documentManager,
       this.vectorStore,
       this.summarizer
     );
-    this.qualityManager = new QualityManager(this.documentManager, this.documentMerger);
+    this.qualityManager = new QualityManager(
+      this.documentManager,
+      this.documentMerger,
+      this.auditLogger
+    );
+    this.bm25Index = new BM25Index({
+      k1: this.config.getNested('search', 'bm25K1'),
+      b: this.config.getNested('search', 'bm25B'),
+    });
+    this.hybridRanker = new HybridRanker();
+    this.metadataExtractor = new MetadataExtractor();
+    this.sensitiveDataScanner = new SensitiveDataScanner(
+      this.documentManager,
+      this.auditLogger,
+      this.vectorStore
+    );
+    this.integrityChecker = new IntegrityChecker(
+      this.documentManager,
+      this.auditLogger,
+      this.vectorStore,
+      this.documentMerger
+    );
+    this.retentionPolicy = new RetentionPolicy(
+      this.documentManager,
+      this.qualityManager,
+      this.auditLogger
+    );
+    this.fileWatcher = new FileWatcher();
   }
 
   /**
@@ -96,18 +178,139 @@ export class MCPServer {
     await this.documentManager.initialize();
     await this.auditLogger.initialize();
 
-    // すべてのドキュメントをメモリにロード
+    // VectorStoreはオプション - プロバイダーが設定されている場合のみ初期化
+    await this.initializeVectorStore();
+
+    // 前回のプロセスが途中で終了したマージをジャーナルから復旧
+    await this.recoverIncompleteOperations();
+
+    // ファイル・ベクトルインデックスの整合性をチェック（設定で有効な場合）
+    if (this.config.getNested('integrityChecker', 'checkOnStartup')) {
+      await this.runStartupIntegrityCheck();
+    }
+
+    // 保持ポリシーを適用し、以降は一定間隔で適用（autoCleanupが有効な場合）
+    if (this.config.getNested('documentManager', 'autoCleanup')) {
+      await this.runScheduledRetention();
+    }
+
+    // すべてのドキュメントをメモリにロード（VectorStoreが有効ならインデックスにも登録）
     await this.loadAllDocumentsIntoMemory();
 
-    // VectorStoreはオプション - 必要な場合のみ初期化
-    // await this.vectorStore.initialize();
+    // git pullや手動編集によるドキュメントの変更を監視
+    await this.startFileWatcher();
+    this.startRetentionSchedule();
 
     this.logger.info('Services initialized', {
       documentsLoaded: this.documentCache.size,
+      semanticSearch: this.semanticSearchEnabled,
       memoryUsage: `${(process.memoryUsage().heapUsed / 1024 / 1024).toFixed(2)} MB`,
     });
   }
 
+  /**
+   * ジャーナルに残っている未完了の操作を再実行またはロールバックします
+   * 他のプロセスが操作中でロックを取得できない場合は、次回の起動時に復旧します
+   */
+  private async recoverIncompleteOperations(): Promise<void> {
+    try {
+      const results = await this.documentMerger.recoverIncompleteMerges();
+
+      for (const result of results) {
+        await this.auditLogger.log({
+          timestamp: new Date().toISOString(),
+          action: 'merge_recovered',
+          actor: 'system',
+          details: {
+            journal_id: result.journalId,
+            outcome: result.outcome,
+            source_ids: result.sourceIds,
+            ...(result.mergedId && { doc_id: result.mergedId }),
+          },
+          impact: 'medium',
+        });
+      }
+    } catch (error) {
+      this.logger.warn('Failed to recover incomplete operations', { error });
+    }
+  }
+
+  /**
+   * 起動時の整合性チェックを実行し、autoRecoverが有効なら問題を修正します
+   */
+  private async runStartupIntegrityCheck(): Promise<void> {
+    try {
+      const report = await this.integrityChecker.checkIntegrity();
+      if (report.issues.length === 0) return;
+
+      this.logger.warn('Integrity issues found on startup', {
+        issueCount: report.issues.length,
+        severity: report.severity,
+      });
+
+      if (this.config.getNested('integrityChecker', 'autoRecover')) {
+        await this.integrityChecker.recover(report.issues);
+      }
+    } catch (error) {
+      this.logger.warn('Startup integrity check failed', { error });
+    }
+  }
+
+  /**
+   * VectorStoreを初期化します
+   * 初期化に失敗した場合はメモリ内検索のみで動作します
+   */
+  private async initializeVectorStore(): Promise<void> {
+    if (!this.config.getNested('vectorStore', 'provider')) {
+      this.logger.info('Vector store provider not configured, semantic search disabled');
+      return;
+    }
+
+    try {
+      await this.vectorStore.initialize();
+      this.semanticSearchEnabled = true;
+    } catch (error) {
+      this.logger.warn('Vector store initialization failed, semantic search disabled', { error });
+    }
+  }
+
+  /**
+   * インデックスに未登録のドキュメントをVectorStoreに登録します
+   */
+  private async indexDocuments(docs: Document[]): Promise<void> {
+    if (!this.semanticSearchEnabled) return;
+
+    try {
+      const indexedIds = new Set(await this.vectorStore.listDocuments());
+      const missing = docs.filter((doc) => !indexedIds.has(doc.metadata.id));
+
+      for (const doc of missing) {
+        await this.vectorStore.addDocument(VectorStore.toDocumentVector(doc));
+      }
+
+      this.logger.info('Documents indexed in vector store', {
+        indexed: missing.length,
+        total: docs.length,
+      });
+    } catch (error) {
+      this.handleVectorStoreError('Failed to index documents', error);
+    }
+  }
+
+  /**
+   * VectorStoreのエラーを処理します
+   * 埋め込みモデルが利用できない場合はセマンティック検索を無効化します
+   */
+  private handleVectorStoreError(message: string, error: unknown): void {
+    if (error instanceof EmbeddingsUnavailableError) {
+      this.semanticSearchEnabled = false;
+      this.logger.warn(`${message}: embeddings unavailable, semantic search disabled`);
+      return;
+    }
+
+    this.logger.warn(message, { error });
+  }
+
   /**
    * すべてのドキュメントをメモリキャッシュにロードします
    */
@@ -117,12 +320,18 @@ export class MCPServer {
     const allDocs = await this.documentManager.getAllDocuments();
 
     // メモリキャッシュに格納
+    this.documentCache.clear();
     for (const doc of allDocs) {
       this.documentCache.set(doc.metadata.id, doc);
     }
 
     // プロジェクトコンテキスト（インデックス）を構築
     this.projectContext = this.buildProjectContext(allDocs);
+    this.bm25Index.build(allDocs);
+    this.invalidateArchiveSearchIndex();
+
+    // ベクトルインデックスに未登録のドキュメントを追加
+    await this.indexDocuments(allDocs);
 
     this.logger.info('All documents loaded into memory', {
       count: allDocs.length,
@@ -130,6 +339,178 @@ export class MCPServer {
     });
   }
 
+  /**
+   * 設定が有効な場合、ドキュメントディレクトリの監視を開始します
+   */
+  private async startFileWatcher(): Promise<void> {
+    const watcherConfig = this.config.get('fileWatcher');
+    if (!watcherConfig.enabled) {
+      this.logger.info('File watcher disabled');
+      return;
+    }
+
+    await this.fileWatcher.startWatching(
+      this.documentManager.getDocsDir(),
+      { syncIntervalSeconds: watcherConfig.syncIntervalSeconds },
+      (result) => this.applyFileSystemChanges(result)
+    );
+
+    // ソースコードの変更は同期間隔ごとにGitの履歴と作業ツリーから検出する
+    if (watcherConfig.trackRelatedFiles) {
+      await this.checkRelatedFiles();
+      this.relatedFilesTimer = setInterval(
+        () => void this.checkRelatedFiles(),
+        watcherConfig.syncIntervalSeconds * 1000
+      );
+    }
+  }
+
+  /**
+   * 設定で有効な場合、保持ポリシーを retentionIntervalHours ごとに適用します
+   */
+  private startRetentionSchedule(): void {
+    const { autoCleanup, retentionIntervalHours } = this.config.get('documentManager');
+    if (!autoCleanup || retentionIntervalHours <= 0) return;
+
+    // setIntervalの上限（約24.8日）を超える間隔は上限に丸める
+    const intervalMs = Math.min(retentionIntervalHours * 60 * 60 * 1000, 2 ** 31 - 1);
+    this.retentionTimer = setInterval(() => void this.runScheduledRetention(), intervalMs);
+  }
+
+  /**
+   * 保持ポリシーを自動適用します（retentionDryRunが有効な場合はレポートのみ）
+   * 他のプロセスがロックを保持している場合などは次回の適用に回します
+   */
+  private async runScheduledRetention(): Promise<void> {
+    if (this.applyingRetention) return;
+    this.applyingRetention = true;
+
+    try {
+      const report = await this.retentionPolicy.apply({
+        dryRun: this.config.getNested('documentManager', 'retentionDryRun'),
+      });
+      await this.applyRetentionReport(report);
+    } catch (error) {
+      this.logger.warn('Failed to apply retention policy', { error });
+    } finally {
+      this.applyingRetention = false;
+    }
+  }
+
+  /**
+   * 保持ポリシーでアーカイブしたドキュメントをベクトルインデックスとメモリキャッシュから外します
+   */
+  private async applyRetentionReport(report: RetentionReport): Promise<void> {
+    if (report.dryRun || report.archived.length === 0) return;
+
+    for (const { docId } of report.archived) {
+      await this.removeFromVectorStore(docId);
+    }
+
+    // 起動時はこの後で読み込むため、読み込み済みの場合のみ読み込み直す
+    if (this.projectContext) {
+      await this.loadAllDocumentsIntoMemory();
+    }
+  }
+
+  /**
+   * 関連ファイルの変更・リネームをドキュメントに反映します
+   * 書き換えたドキュメントはファイル監視によってメモリキャッシュに反映されます
+   */
+  private async checkRelatedFiles(): Promise<void> {
+    if (this.checkingRelatedFiles) return;
+    this.checkingRelatedFiles = true;
+
+    try {
+      await this.qualityManager.syncRelatedFiles();
+    } catch (error) {
+      this.logger.warn('Failed to check related files', { error });
+    } finally {
+      this.checkingRelatedFiles = false;
+    }
+  }
+
+  /**
+   * ファイルシステム上の変更をメモリキャッシュとインデックスに反映します
+   * 追加・変更されたドキュメントは読み込み直し、削除されたドキュメントは各インデックスから外します
+   */
+  private async applyFileSystemChanges(result: SyncResult): Promise<void> {
+    const findCachedByPath = (filePath: string) =>
+      Array.from(this.documentCache.values()).find((doc) => doc.file_path === filePath);
+
+    // 手動編集やgit pullによる変更をマニフェストにも反映
+    await this.documentManager.refreshManifest();
+
+    let changed = 0;
+
+    for (const filePath of result.deleted) {
+      const cached = findCachedByPath(filePath);
+      if (!cached) continue;
+
+      this.documentCache.delete(cached.metadata.id);
+      this.bm25Index.remove(cached.metadata.id);
+      await this.removeFromVectorStore(cached.metadata.id);
+      changed++;
+    }
+
+    for (const filePath of [...result.added, ...result.modified]) {
+      const doc = await this.documentManager.loadDocumentFromFile(filePath);
+      if (!doc) continue;
+
+      // フロントマターのIDが手動で書き換えられた場合は古いIDを外す
+      const previousAtPath = findCachedByPath(filePath);
+      if (previousAtPath && previousAtPath.metadata.id !== doc.metadata.id) {
+        this.documentCache.delete(previousAtPath.metadata.id);
+        this.bm25Index.remove(previousAtPath.metadata.id);
+        await this.removeFromVectorStore(previousAtPath.metadata.id);
+      }
+
+      // サーバー自身が書き込んでキャッシュ済みのドキュメントは再インデックスしない
+      const cached = this.documentCache.get(doc.metadata.id);
+      if (
+        cached &&
+        cached.file_path === doc.file_path &&
+        cached.content === doc.content &&
+        JSON.stringify(cached.metadata) === JSON.stringify(doc.metadata)
+      ) {
+        continue;
+      }
+
+      this.documentCache.set(doc.metadata.id, doc);
+      this.bm25Index.add(doc);
+      await this.reindexDocument(doc);
+      changed++;
+    }
+
+    if (changed === 0) return;
+
+    // アーカイブ・復元はドキュメントディレクトリからの削除・追加として検出される
+    this.invalidateArchiveSearchIndex();
+
+    const allDocs = Array.from(this.documentCache.values()).sort(
+      (a, b) => new Date(b.metadata.created).getTime() - new Date(a.metadata.created).getTime()
+    );
+    this.projectContext = this.buildProjectContext(allDocs);
+
+    this.logger.info('Applied file system changes to memory cache', {
+      changed,
+      cacheSize: this.documentCache.size,
+    });
+  }
+
+  /**
+   * 内容が変わったドキュメントをVectorStoreに再登録します
+   */
+  private async reindexDocument(doc: Document): Promise<void> {
+    if (!this.semanticSearchEnabled) return;
+
+    try {
+      await this.vectorStore.addDocument(VectorStore.toDocumentVector(doc));
+    } catch (error) {
+      this.handleVectorStoreError('Failed to re-index document in vector store', error);
+    }
+  }
+
   /**
    * プロジェクトコンテキストを構築します（高速検索用のインデックス）
    */
@@ -154,8 +535,8 @@ export class MCPServer {
         byTag.get(tag)!.push(doc);
       }
 
-      // ファイルでインデックス化
-      for (const file of doc.metadata.related_files) {
+      // ファイルでインデックス化（リネーム前のパスでも引けるようにする）
+      for (const file of this.getIndexedFiles(doc)) {
         if (!byFile.has(file)) {
           byFile.set(file, []);
         }
@@ -166,6 +547,14 @@ export class MCPServer {
     return { byDate, byTag, byFile, allDocs: docs };
   }
 
+  /**
+   * ファイルインデックスに登録するパス（related_filesとリネーム前の別名）を返します
+   */
+  private getIndexedFiles(doc: Document): string[] {
+    const aliases = Object.values(doc.metadata.related_file_aliases ?? {}).flat();
+    return Array.from(new Set([...doc.metadata.related_files, ...aliases]));
+  }
+
   /**
    * MCPツールを登録します
    */
@@ -179,12 +568,18 @@ export class MCPServer {
           'Search for documents related to a prompt. Returns recent implementations and semantically similar documents.',
         inputSchema: SearchRelatedDocsSchema,
       },
-      ({ prompt, maxResults, threshold }) => {
-        this.logger.debug('Tool called: search_related_docs', { prompt, maxResults, threshold });
-        const result = this.handleSearchRelatedDocs({
+      async ({ prompt, maxResults, threshold, includeArchived }) => {
+        this.logger.debug('Tool called: search_related_docs', {
+          prompt,
+          maxResults,
+          threshold,
+          includeArchived,
+        });
+        const result = await this.handleSearchRelatedDocs({
           prompt,
           ...(maxResults !== undefined && { maxResults }),
           ...(threshold !== undefined && { threshold }),
+          ...(includeArchived !== undefined && { includeArchived }),
         });
         return {
           content: result.content,
@@ -201,13 +596,25 @@ export class MCPServer {
           'Record a new implementation document. Creates a document from changed files and prompt.',
         inputSchema: RecordImplementationSchema,
       },
-      async ({ files, prompt, summary }) => {
-        this.logger.debug('Tool called: record_implementation', { files, prompt, summary });
-        const result = await this.handleRecordImplementation({
+      async ({ files, prompt, summary, diffMode, baseRef, reason }) => {
+        this.logger.debug('Tool called: record_implementation', {
           files,
           prompt,
-          ...(summary !== undefined && { summary }),
+          summary,
+          diffMode,
+          baseRef,
+          reason,
         });
+        const result = await this.runWithLockReport('record_implementation', () =>
+          this.handleRecordImplementation({
+            files,
+            prompt,
+            ...(summary !== undefined && { summary }),
+            ...(diffMode !== undefined && { diffMode }),
+            ...(baseRef !== undefined && { baseRef }),
+            ...(reason !== undefined && { reason }),
+          })
+        );
         return {
           content: result.content,
         };
@@ -219,12 +626,19 @@ export class MCPServer {
       'manage_documents',
       {
         title: 'Manage Documents',
-        description: 'Manage documents (archive or delete). Use for cleanup operations.',
+        description:
+          'Manage documents (archive, restore from archive, delete, pin/unpin, protect/unprotect, mark_reviewed, or review_merge). Use for cleanup operations, to keep canonical records out of automated cleanup and merges, and to clear needs_review once a document is up to date with its related files.',
         inputSchema: ManageDocumentsSchema,
       },
-      async ({ action, docId }) => {
-        this.logger.debug('Tool called: manage_documents', { action, docId });
-        const result = await this.handleManageDocuments({ action, docId });
+      async ({ action, docId, reason }) => {
+        this.logger.debug('Tool called: manage_documents', { action, docId, reason });
+        const result = await this.runWithLockReport('manage_documents', () =>
+          this.handleManageDocuments({
+            action,
+            docId,
+            ...(reason !== undefined && { reason }),
+          })
+        );
         return {
           content: result.content,
         };
@@ -240,12 +654,15 @@ export class MCPServer {
           'Detect and merge similar documents. Reduces duplication and consolidates related implementations.',
         inputSchema: MergeSimilarDocsSchema,
       },
-      async ({ threshold, autoMerge }) => {
-        this.logger.debug('Tool called: merge_similar_docs', { threshold, autoMerge });
-        const result = await this.handleMergeSimilarDocs({
-          ...(threshold !== undefined && { threshold }),
-          ...(autoMerge !== undefined && { autoMerge }),
-        });
+      async ({ threshold, autoMerge, reason }) => {
+        this.logger.debug('Tool called: merge_similar_docs', { threshold, autoMerge, reason });
+        const result = await this.runWithLockReport('merge_similar_docs', () =>
+          this.handleMergeSimilarDocs({
+            ...(threshold !== undefined && { threshold }),
+            ...(autoMerge !== undefined && { autoMerge }),
+            ...(reason !== undefined && { reason }),
+          })
+        );
         return {
           content: result.content,
         };
@@ -261,11 +678,12 @@ export class MCPServer {
           'Search documents by keyword and tags. Useful for finding specific implementations.',
         inputSchema: SearchByKeywordSchema,
       },
-      async ({ keyword, tags }) => {
-        this.logger.debug('Tool called: search_by_keyword', { keyword, tags });
+      async ({ keyword, tags, includeArchived }) => {
+        this.logger.debug('Tool called: search_by_keyword', { keyword, tags, includeArchived });
         const result = await this.handleSearchByKeyword({
           keyword,
           ...(tags !== undefined && { tags }),
+          ...(includeArchived !== undefined && { includeArchived }),
         });
         return {
           content: result.content,
@@ -304,9 +722,11 @@ export class MCPServer {
       },
       async ({ fix }) => {
         this.logger.debug('Tool called: check_document_quality', { fix });
-        const result = await this.handleCheckDocumentQuality({
-          ...(fix !== undefined && { fix }),
-        });
+        const result = await this.runWithLockReport('check_document_quality', () =>
+          this.handleCheckDocumentQuality({
+            ...(fix !== undefined && { fix }),
+          })
+        );
         return {
           content: result.content,
         };
@@ -338,9 +758,165 @@ export class MCPServer {
         description: 'Rollback a merge operation. Restores the original documents from archive.',
         inputSchema: RollbackMergeSchema,
       },
-      async ({ mergedDocId }) => {
-        this.logger.debug('Tool called: rollback_merge', { mergedDocId });
-        const result = await this.handleRollbackMerge({ mergedDocId });
+      async ({ mergedDocId, mode, reason }) => {
+        this.logger.debug('Tool called: rollback_merge', { mergedDocId, mode, reason });
+        const result = await this.runWithLockReport('rollback_merge', () =>
+          this.handleRollbackMerge({
+            mergedDocId,
+            ...(mode !== undefined && { mode }),
+            ...(reason !== undefined && { reason }),
+          })
+        );
+        return {
+          content: result.content,
+        };
+      }
+    );
+
+    // 10. scan_sensitive_data
+    this.mcpServer.registerTool(
+      'scan_sensitive_data',
+      {
+        title: 'Scan Sensitive Data',
+        description:
+          'Scan all active and archived documents for sensitive data. Optionally mask findings and rewrite the documents.',
+        inputSchema: ScanSensitiveDataSchema,
+      },
+      async ({ rewrite, reason }) => {
+        this.logger.debug('Tool called: scan_sensitive_data', { rewrite, reason });
+        const result = await this.runWithLockReport('scan_sensitive_data', () =>
+          this.handleScanSensitiveData({
+            ...(rewrite !== undefined && { rewrite }),
+            ...(reason !== undefined && { reason }),
+          })
+        );
+        return {
+          content: result.content,
+        };
+      }
+    );
+
+    // 11. check_integrity
+    this.mcpServer.registerTool(
+      'check_integrity',
+      {
+        title: 'Check Integrity',
+        description:
+          'Check documents, the archive, the vector index and the operation journal for integrity issues. Optionally preview or apply recoveries.',
+        inputSchema: CheckIntegritySchema,
+      },
+      async ({ fix, dryRun }) => {
+        this.logger.debug('Tool called: check_integrity', { fix, dryRun });
+        const result = await this.runWithLockReport('check_integrity', () =>
+          this.handleCheckIntegrity({
+            ...(fix !== undefined && { fix }),
+            ...(dryRun !== undefined && { dryRun }),
+          })
+        );
+        return {
+          content: result.content,
+        };
+      }
+    );
+
+    // 12. accept_manual_edit
+    this.mcpServer.registerTool(
+      'accept_manual_edit',
+      {
+        title: 'Accept Manual Edit',
+        description:
+          'Accept a legitimate edit made outside the tool: record it in change_log and re-hash the document so it is no longer reported as hand-edited.',
+        inputSchema: AcceptManualEditSchema,
+      },
+      async ({ docId, reason }) => {
+        this.logger.debug('Tool called: accept_manual_edit', { docId });
+        const result = await this.runWithLockReport('accept_manual_edit', () =>
+          this.handleAcceptManualEdit({ docId, ...(reason !== undefined && { reason }) })
+        );
+        return {
+          content: result.content,
+        };
+      }
+    );
+
+    // 13. get_document_revisions
+    this.mcpServer.registerTool(
+      'get_document_revisions',
+      {
+        title: 'Get Document Revisions',
+        description:
+          'List the saved revisions of a document, or show a line diff between two revisions (or a revision and the current version).',
+        inputSchema: GetDocumentRevisionsSchema,
+      },
+      async ({ docId, from, to }) => {
+        this.logger.debug('Tool called: get_document_revisions', { docId, from, to });
+        const result = await this.handleGetDocumentRevisions({
+          docId,
+          ...(from !== undefined && { from }),
+          ...(to !== undefined && { to }),
+        });
+        return {
+          content: result.content,
+        };
+      }
+    );
+
+    // 14. restore_revision
+    this.mcpServer.registerTool(
+      'restore_revision',
+      {
+        title: 'Restore Revision',
+        description:
+          'Restore a document to a saved revision. The version being replaced is kept as a new revision.',
+        inputSchema: RestoreRevisionSchema,
+      },
+      async ({ docId, revision, reason }) => {
+        this.logger.debug('Tool called: restore_revision', { docId, revision });
+        const result = await this.runWithLockReport('restore_revision', () =>
+          this.handleRestoreRevision({
+            docId,
+            revision,
+            ...(reason !== undefined && { reason }),
+          })
+        );
+        return {
+          content: result.content,
+        };
+      }
+    );
+
+    // 15. apply_retention_policy
+    this.mcpServer.registerTool(
+      'apply_retention_policy',
+      {
+        title: 'Apply Retention Policy',
+        description:
+          'Archive documents that are too old, low quality, unreferenced or over the maxDocuments cap. Pinned, protected and merge-reviewed documents are kept. Use dryRun to preview.',
+        inputSchema: ApplyRetentionPolicySchema,
+      },
+      async ({ dryRun }) => {
+        this.logger.debug('Tool called: apply_retention_policy', { dryRun });
+        const result = await this.runWithLockReport('apply_retention_policy', () =>
+          this.handleApplyRetentionPolicy({ ...(dryRun !== undefined && { dryRun }) })
+        );
+        return {
+          content: result.content,
+        };
+      }
+    );
+
+    // 16. audit_log
+    this.mcpServer.registerTool(
+      'audit_log',
+      {
+        title: 'Audit Log',
+        description:
+          'Search the audit log, including rotated archives, newest first. Filter by action, actor, impact, document ID or date range, and page through results with the returned cursor.',
+        inputSchema: AuditLogSchema,
+      },
+      async (args) => {
+        this.logger.debug('Tool called: audit_log', args);
+        const result = await this.handleAuditLog(args);
         return {
           content: result.content,
         };
@@ -351,19 +927,85 @@ export class MCPServer {
   }
 
   /**
-   * search_related_docsツールを処理します
+   * ドキュメントを書き換えるツールを実行します
+   * 他のプロセスがロックを保持し続けていて取得できなかった場合は、保持者を示して再試行を促します
    */
-  private handleSearchRelatedDocs(args: SearchRelatedDocsArgs): CallToolResult {
-    const { prompt, maxResults = 3 } = args;
+  private async runWithLockReport(
+    toolName: string,
+    handler: () => Promise<CallToolResult>
+  ): Promise<CallToolResult> {
+    try {
+      return await handler();
+    } catch (error) {
+      if (!(error instanceof LockHeldError)) {
+        throw error;
+      }
+
+      this.logger.warn('Tool blocked by another process holding the lock', {
+        toolName,
+        holder: error.holder,
+      });
+
+      const holder = error.holder
+        ? `（PID ${error.holder.pid}・${error.holder.hostname}・操作: ${error.holder.operation}・開始: ${error.holder.acquired}）`
+        : '';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `⚠️ 別のプロセス${holder}がドキュメントを操作中のため、${toolName}を実行できませんでした。しばらくしてから再試行してください。`,
+          },
+        ],
+      };
+    }
+  }
 
-    this.logger.debug('Searching related docs in memory', { prompt });
+  /**
+   * search_related_docsツールを処理します
+   */
+  private async handleSearchRelatedDocs(args: SearchRelatedDocsArgs): Promise<CallToolResult> {
+    const {
+      prompt,
+      maxResults = 3,
+      threshold = this.config.getNested('vectorStore', 'similarityThreshold'),
+      includeArchived = this.config.getNested('search', 'includeArchived'),
+    } = args;
 
-    // 高速なメモリ内検索
     const recentDocs = this.getRecentDocumentsFromMemory(5);
-    const relatedDocs = this.searchInMemory(prompt, maxResults);
+
+    // アーカイブはベクトルインデックスに含まれないため、アクティブなドキュメントと合わせたBM25で検索
+    const archiveSearch = includeArchived ? await this.getArchiveSearchIndex() : null;
+    const archivedDocs = archiveSearch?.archivedDocs ?? [];
+    const archivedById = new Map(archivedDocs.map((doc) => [doc.metadata.id, doc]));
+
+    // BM25とベクトル検索を合成してランキング（ベクトル検索が使えない場合はBM25のみ）
+    const bm25Scores =
+      archiveSearch && archivedDocs.length > 0
+        ? archiveSearch.index.search(prompt)
+        : this.bm25Index.search(prompt);
+    const vectorResults = await this.searchSemantic(prompt, maxResults * 3, threshold);
+    const pinnedIds = new Set(
+      [...this.documentCache.values(), ...archivedDocs]
+        .filter((doc) => doc.metadata.pinned)
+        .map((doc) => doc.metadata.id)
+    );
+    const ranked = this.hybridRanker.rank(bm25Scores, vectorResults, maxResults, pinnedIds);
+
+    const relatedDocs: RankedDocument[] = [];
+    for (const ranking of ranked) {
+      const doc = this.documentCache.get(ranking.id) ?? archivedById.get(ranking.id);
+      if (doc) {
+        relatedDocs.push({ doc, ranking });
+      }
+    }
+
+    const notice = vectorResults
+      ? undefined
+      : '⚠️ 埋め込みモデルが利用できないため、BM25によるキーワード検索のみで結果を並べています。';
 
     // 結果をフォーマット
-    const formatted = this.formatSearchResultsWithRecent(recentDocs, relatedDocs);
+    const formatted = this.formatSearchResultsWithRecent(recentDocs, relatedDocs, notice);
 
     return {
       content: [
@@ -376,43 +1018,53 @@ export class MCPServer {
   }
 
   /**
-   * メモリ内で関連ドキュメントを検索します
+   * アクティブなドキュメントとアーカイブを合わせたBM25インデックスを返します
+   * 作成したインデックスはドキュメントのアーカイブ・復元・追加・削除まで使い回します
    */
-  private searchInMemory(query: string, limit: number): Document[] {
-    const queryLower = query.toLowerCase();
-    const results: Array<{ doc: Document; score: number }> = [];
-
-    for (const doc of this.documentCache.values()) {
-      let score = 0;
-
-      // サマリーとのマッチング
-      if (doc.metadata.summary.toLowerCase().includes(queryLower)) {
-        score += 10;
-      }
+  private async getArchiveSearchIndex(): Promise<{ index: BM25Index; archivedDocs: Document[] }> {
+    if (this.archiveSearchIndex) return this.archiveSearchIndex;
+
+    const version = this.archiveSearchVersion;
+    const archivedDocs = await this.documentManager.getArchivedDocuments();
+    const index = new BM25Index({
+      k1: this.config.getNested('search', 'bm25K1'),
+      b: this.config.getNested('search', 'bm25B'),
+    });
+    index.build([...this.documentCache.values(), ...archivedDocs]);
 
-      // タグとのマッチング
-      for (const tag of doc.metadata.tags) {
-        if (queryLower.includes(tag.toLowerCase())) {
-          score += 5;
-        }
-      }
+    // 読み込み中にアーカイブ・復元された場合は古い内容になるため、キャッシュせずに使う
+    const result = { index, archivedDocs };
+    if (version === this.archiveSearchVersion) {
+      this.archiveSearchIndex = result;
+    }
+    return result;
+  }
 
-      // ファイルとのマッチング
-      for (const file of doc.metadata.related_files) {
-        if (queryLower.includes(file.toLowerCase())) {
-          score += 3;
-        }
-      }
+  /**
+   * アーカイブを含めた検索用のBM25インデックスを破棄します
+   */
+  private invalidateArchiveSearchIndex(): void {
+    this.archiveSearchIndex = null;
+    this.archiveSearchVersion++;
+  }
 
-      if (score > 0) {
-        results.push({ doc, score });
-      }
+  /**
+   * VectorStoreで埋め込みの類似度による検索を行います
+   * @returns 閾値を満たした検索結果。セマンティック検索が利用できない場合はnull
+   */
+  private async searchSemantic(
+    query: string,
+    limit: number,
+    threshold: number
+  ): Promise<SearchResult[] | null> {
+    if (!this.semanticSearchEnabled) return null;
+
+    try {
+      return await this.vectorStore.search(query, limit, threshold);
+    } catch (error) {
+      this.handleVectorStoreError('Semantic search failed', error);
+      return null;
     }
-
-    return results
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit)
-      .map((r) => r.doc);
   }
 
   /**
@@ -434,20 +1086,48 @@ export class MCPServer {
   private async handleRecordImplementation(
     args: RecordImplementationArgs
   ): Promise<CallToolResult> {
-    const { files, prompt, summary } = args;
+    const { files, prompt, summary, reason } = args;
+    const gitConfig = this.config.get('git');
+    const diffMode = args.diffMode ?? gitConfig.diffMode;
 
-    this.logger.debug('Recording implementation', { files });
+    this.logger.debug('Recording implementation', { files, diffMode });
 
-    // 1. ドキュメントを作成（ファイルシステムに保存）
-    const doc = await this.documentManager.createDocument({
-      files,
-      prompt,
-      ...(summary ? { summary } : {}),
-    });
+    if (diffMode === 'base' && !(args.baseRef ?? gitConfig.diffBaseRef)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'diffMode "base" を使用するには baseRef を指定してください。',
+          },
+        ],
+      };
+    }
+
+    // 1. ドキュメントを作成（ファイルシステムに保存）
+    const doc = await this.documentManager.createDocument(
+      {
+        files,
+        prompt,
+        ...(summary ? { summary } : {}),
+        ...(gitConfig.enabled &&
+          diffMode !== 'preview' && {
+            diff: {
+              mode: diffMode,
+              ...(diffMode === 'base' && { baseRef: args.baseRef ?? gitConfig.diffBaseRef }),
+              maxHunks: gitConfig.maxDiffHunks,
+              maxLinesPerHunk: gitConfig.maxDiffLinesPerHunk,
+            },
+          }),
+      },
+      reason ? { reason } : {}
+    );
 
     // 2. メモリキャッシュに即座に追加
     this.documentCache.set(doc.metadata.id, doc);
     this.updateProjectContext(doc);
+    this.bm25Index.add(doc);
+    this.invalidateArchiveSearchIndex();
+    await this.indexDocuments([doc]);
 
     this.logger.info('Document added to memory cache', {
       id: doc.metadata.id,
@@ -486,7 +1166,7 @@ export class MCPServer {
       content: [
         {
           type: 'text',
-          text: `実装ドキュメントを作成しました:\n- ID: ${doc.metadata.id}\n- ファイル: ${doc.metadata.related_files.join(', ')}`,
+          text: this.formatCreatedDocument(doc),
         },
       ],
     };
@@ -553,7 +1233,7 @@ export class MCPServer {
     }
 
     // ファイルインデックスに追加
-    for (const file of doc.metadata.related_files) {
+    for (const file of this.getIndexedFiles(doc)) {
       if (!this.projectContext.byFile.has(file)) {
         this.projectContext.byFile.set(file, []);
       }
@@ -587,6 +1267,33 @@ export class MCPServer {
     return intersection.size / Math.max(wordsA.size, wordsB.size);
   }
 
+  /**
+   * ドキュメント作成結果をフォーマットします
+   */
+  private formatCreatedDocument(doc: Document): string {
+    let text = `実装ドキュメントを作成しました:\n- ID: ${doc.metadata.id}\n- ファイル: ${doc.metadata.related_files.join(', ')}`;
+
+    if (doc.metadata.diff_base !== undefined) {
+      text += `\n- 差分 (${doc.metadata.diff_base}): +${doc.metadata.lines_added ?? 0} / -${doc.metadata.lines_removed ?? 0}`;
+    }
+
+    const findings = doc.sensitive_findings || [];
+    if (findings.length > 0 && this.config.getNested('sensitiveData', 'warnUser')) {
+      const masked = findings.every((f) => f.masked);
+      text += masked
+        ? `\n\n⚠️ 機密データを検出し、マスクしてから保存しました:\n`
+        : `\n\n⚠️ 機密データを検出しました（マスクされていない項目があります。ドキュメントを確認してください）:\n`;
+      text += findings
+        .map(
+          (f) =>
+            `- ${f.pattern} [${f.category}/${f.severity}] ${f.field}: ${f.count}件${f.masked ? '' : '（未マスク）'}`
+        )
+        .join('\n');
+    }
+
+    return text;
+  }
+
   /**
    * 類似ドキュメントを含む作成レスポンスをフォーマットします
    */
@@ -594,7 +1301,7 @@ export class MCPServer {
     doc: Document,
     similarDocs: DocumentWithSimilarity[]
   ): string {
-    let text = `実装ドキュメントを作成しました:\n- ID: ${doc.metadata.id}\n- ファイル: ${doc.metadata.related_files.join(', ')}\n\n`;
+    let text = `${this.formatCreatedDocument(doc)}\n\n`;
 
     text += `⚠️ 類似するドキュメントを検出しました:\n`;
 
@@ -614,8 +1321,14 @@ export class MCPServer {
   /**
    * 検索結果をフォーマットします
    */
-  private formatSearchResultsWithRecent(recentDocs: Document[], relatedDocs: Document[]): string {
-    let result = '## 最近の実装\n\n';
+  private formatSearchResultsWithRecent(
+    recentDocs: Document[],
+    relatedDocs: RankedDocument[],
+    notice?: string
+  ): string {
+    let result = notice ? `${notice}\n\n` : '';
+
+    result += '## 最近の実装\n\n';
 
     if (recentDocs.length > 0) {
       recentDocs.forEach((doc) => {
@@ -629,9 +1342,10 @@ export class MCPServer {
     result += '\n## 関連する過去の実装\n\n';
 
     if (relatedDocs.length > 0) {
-      relatedDocs.forEach((doc, i) => {
-        result += `### ${i + 1}. ${doc.metadata.summary}\n`;
-        result += `${doc.metadata.standard_summary || doc.metadata.summary}\n\n`;
+      relatedDocs.forEach(({ doc, ranking }, i) => {
+        result += `### ${i + 1}. ${doc.metadata.summary}${this.formatPinnedMark(doc)}${this.formatArchivedMark(doc)}\n`;
+        result += `${doc.metadata.standard_summary || doc.metadata.summary}\n`;
+        result += `_${this.formatScoreBreakdown(ranking)}_\n\n`;
       });
     } else {
       result += '関連する実装が見つかりませんでした。\n';
@@ -640,15 +1354,54 @@ export class MCPServer {
     return result;
   }
 
+  /**
+   * 固定されたドキュメントの目印をフォーマットします
+   */
+  private formatPinnedMark(doc: Document): string {
+    return doc.metadata.pinned ? ' 📌 [固定]' : '';
+  }
+
+  /**
+   * アーカイブされたドキュメントの目印をフォーマットします
+   */
+  private formatArchivedMark(doc: Document): string {
+    return this.documentManager.isArchived(doc) ? ' 📦 [アーカイブ済み]' : '';
+  }
+
+  /**
+   * ハイブリッドスコアの内訳をフォーマットします
+   */
+  private formatScoreBreakdown(ranking: HybridSearchResult): string {
+    const { bm25, bm25Raw, vector, bm25Weight, vectorWeight, pinnedBoost } = ranking.breakdown;
+    const vectorPart =
+      vector === null
+        ? 'ベクトル: n/a'
+        : `ベクトル ${vector.toFixed(2)} × ${vectorWeight.toFixed(2)}`;
+    const pinnedPart = pinnedBoost > 0 ? ` + 固定 ${pinnedBoost.toFixed(2)}` : '';
+
+    return (
+      `スコア: ${ranking.score.toFixed(2)} = ` +
+      `BM25 ${bm25.toFixed(2)} (raw ${bm25Raw.toFixed(2)}) × ${bm25Weight.toFixed(2)} + ${vectorPart}${pinnedPart}`
+    );
+  }
+
   /**
    * manage_documentsツールを処理します
    */
   private async handleManageDocuments(args: ManageDocumentsArgs): Promise<CallToolResult> {
-    const { action, docId } = args;
+    const { action, docId, reason } = args;
 
     switch (action) {
       case 'archive':
-        await this.documentManager.archiveDocument(docId);
+        await this.documentManager.archiveDocument(docId, reason ? { reason } : {});
+        await this.removeFromVectorStore(docId);
+        this.bm25Index.remove(docId);
+        this.invalidateArchiveSearchIndex();
+
+        // メモリキャッシュから削除
+        this.documentCache.delete(docId);
+        this.logger.info('Document archived and removed from memory', { docId });
+
         return {
           content: [
             {
@@ -658,13 +1411,46 @@ export class MCPServer {
           ],
         };
 
+      case 'restore': {
+        const doc = await this.documentManager.restoreDocument(docId, reason ? { reason } : {});
+
+        // メモリキャッシュとインデックスに追加
+        this.documentCache.set(docId, doc);
+        this.updateProjectContext(doc);
+        this.bm25Index.add(doc);
+        this.invalidateArchiveSearchIndex();
+        await this.indexDocuments([doc]);
+        this.logger.info('Document restored and added to memory', { docId });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `ドキュメントをアーカイブから復元しました: ${docId}`,
+            },
+          ],
+        };
+      }
+
       case 'delete':
         await this.documentManager.deleteDocument(docId);
+        await this.removeFromVectorStore(docId);
+        this.bm25Index.remove(docId);
+        this.invalidateArchiveSearchIndex();
 
         // メモリキャッシュから削除
         this.documentCache.delete(docId);
         this.logger.info('Document deleted from memory', { docId });
 
+        // 削除したドキュメントの change_log は残らないため、監査ログに記録
+        await this.auditLogger.log({
+          timestamp: new Date().toISOString(),
+          action: 'document_deleted',
+          actor: this.metadataExtractor.getGitInfo().email,
+          details: { doc_id: docId, ...(reason && { reason }) },
+          impact: 'medium',
+        });
+
         return {
           content: [
             {
@@ -674,26 +1460,120 @@ export class MCPServer {
           ],
         };
 
+      case 'pin':
+      case 'unpin':
+      case 'protect':
+      case 'unprotect': {
+        const flag = action === 'pin' || action === 'unpin' ? 'pinned' : 'protected';
+        const value = action === 'pin' || action === 'protect';
+        const doc = await this.documentManager.updateDocument(
+          docId,
+          { [flag]: value },
+          { action: value ? flag : `un${flag}`, ...(reason && { reason }) }
+        );
+
+        // メモリキャッシュのメタデータを更新（固定は関連ドキュメント検索の順位に反映される）
+        this.documentCache.set(docId, doc);
+        this.logger.info('Document flag updated', { docId, flag, value });
+
+        const label = flag === 'pinned' ? '固定' : '保護';
+        return {
+          content: [
+            {
+              type: 'text',
+              text: value
+                ? `ドキュメントを${label}しました: ${docId}`
+                : `ドキュメントの${label}を解除しました: ${docId}`,
+            },
+          ],
+        };
+      }
+
+      case 'mark_reviewed': {
+        const doc = await this.documentManager.markReviewed(docId, reason ? { reason } : {});
+
+        // メモリキャッシュのメタデータを更新（品質チェックの要見直しから外れる）
+        this.documentCache.set(docId, doc);
+        this.logger.info('Document marked as reviewed', { docId });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `ドキュメントの要見直しを解除しました: ${docId}`,
+            },
+          ],
+        };
+      }
+
+      case 'review_merge': {
+        const current = await this.documentManager.getDocument(docId);
+        if (!current) {
+          throw new Error(`Document not found: ${docId}`);
+        }
+        if (!current.metadata.is_merged) {
+          throw new Error(`Document is not a merged document: ${docId}`);
+        }
+
+        const reviewer = this.metadataExtractor.getGitInfo().email;
+        const doc = await this.documentManager.updateDocument(
+          docId,
+          { merge_reviewed: true, merge_reviewer: reviewer },
+          { actor: reviewer, action: 'merge_reviewed', ...(reason && { reason }) }
+        );
+
+        // メモリキャッシュのメタデータを更新（保持ポリシーの対象外になる）
+        this.documentCache.set(docId, doc);
+        this.logger.info('Merged document reviewed', { docId, reviewer });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `統合ドキュメントをレビュー済みにしました: ${docId}`,
+            },
+          ],
+        };
+      }
+
       default:
         throw new Error(`Unknown action: ${String(action)}`);
     }
   }
 
+  /**
+   * VectorStoreからドキュメントを削除します
+   */
+  private async removeFromVectorStore(docId: string): Promise<void> {
+    if (!this.semanticSearchEnabled) return;
+
+    try {
+      await this.vectorStore.deleteDocument(docId);
+    } catch (error) {
+      this.handleVectorStoreError('Failed to remove document from vector store', error);
+    }
+  }
+
   /**
    * search_by_keywordツールを処理します
    */
   private async handleSearchByKeyword(args: SearchByKeywordArgs): Promise<CallToolResult> {
-    const { keyword, tags } = args;
+    const {
+      keyword,
+      tags,
+      includeArchived = this.config.getNested('search', 'includeArchived'),
+    } = args;
 
     const results = await this.documentManager.searchDocuments({
       keyword,
       ...(tags ? { tags } : {}),
+      includeArchived,
     });
 
     const formatted = results
       .map(
         (doc, i) =>
-          `${i + 1}. ${doc.metadata.summary} (${doc.metadata.created})\n   ファイル: ${doc.file_path}`
+          `${i + 1}. ${doc.metadata.summary}${this.formatArchivedMark(doc)} (${doc.metadata.created})\n   ファイル: ${doc.file_path}`
       )
       .join('\n\n');
 
@@ -711,12 +1591,12 @@ export class MCPServer {
    * merge_similar_docsツールを処理します
    */
   private async handleMergeSimilarDocs(args: MergeSimilarDocsArgs): Promise<CallToolResult> {
-    const { threshold = 0.85 } = args;
+    const { threshold = 0.85, reason } = args;
 
     this.logger.debug('Merging similar docs', { threshold });
 
     // マージを実行
-    const result = await this.documentMerger.executeMerge(threshold);
+    const result = await this.documentMerger.executeMerge(threshold, reason ? { reason } : {});
 
     // マージ後にメモリキャッシュを再ロード
     await this.loadAllDocumentsIntoMemory();
@@ -831,7 +1711,9 @@ ${
   private async handleGetDocumentHistory(args: GetDocumentHistoryArgs): Promise<CallToolResult> {
     const { docId } = args;
 
-    const doc = await this.documentManager.getDocument(docId);
+    const doc =
+      (await this.documentManager.getDocument(docId)) ??
+      (await this.documentManager.getArchivedDocument(docId));
 
     if (!doc) {
       return {
@@ -870,6 +1752,7 @@ ${changeLog
 - **${entry.timestamp}** - ${entry.action}
   - 実行者: ${entry.author}
   ${entry.reason ? `- 理由: ${entry.reason}` : ''}
+${this.formatFieldChanges(entry.details?.changes as Record<string, FieldChange> | undefined)}
 `
   )
   .join('\n')}
@@ -885,13 +1768,30 @@ ${changeLog
     };
   }
 
+  /**
+   * change_log に記録されたフィールド単位の変更をフォーマットします
+   */
+  private formatFieldChanges(changes: Record<string, FieldChange> | undefined): string {
+    if (!changes || Object.keys(changes).length === 0) return '';
+
+    const formatValue = (value: unknown) => {
+      if (value === undefined) return '(なし)';
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+    };
+
+    return Object.entries(changes)
+      .map(([key, { from, to }]) => `  - ${key}: ${formatValue(from)} → ${formatValue(to)}`)
+      .join('\n');
+  }
+
   /**
    * rollback_mergeツールを処理します
    */
   private async handleRollbackMerge(args: RollbackMergeArgs): Promise<CallToolResult> {
-    const { mergedDocId } = args;
+    const { mergedDocId, mode = 'archive', reason = 'Merge rolled back' } = args;
 
-    this.logger.debug('Rolling back merge', { mergedDocId });
+    this.logger.debug('Rolling back merge', { mergedDocId, mode });
 
     const doc = await this.documentManager.getDocument(mergedDocId);
 
@@ -917,17 +1817,370 @@ ${changeLog
       };
     }
 
-    // TODO: ロールバックロジックを実装
-    // これには以下が含まれます:
-    // 1. merged_from配列からアーカイブされたドキュメントを復元
-    // 2. 統合ドキュメントを削除
-    // 3. メモリキャッシュを更新
+    const actor = this.metadataExtractor.getGitInfo().email;
+    const timestamp = new Date().toISOString();
+    const restored: string[] = [];
+    const missing: string[] = [];
+
+    const mergedFrom = doc.metadata.merged_from;
+
+    // 復元と統合ドキュメントの処理を他のプロセスと排他して実行
+    await this.documentManager.withLock('rollback_merge', async () => {
+      // 1. アーカイブに残っている統合元を確認
+      const sources: string[] = [];
+      for (const sourceId of mergedFrom) {
+        if (await this.documentManager.getArchivedDocument(sourceId)) {
+          sources.push(sourceId);
+        } else {
+          this.logger.warn('Merge source not found in archive', { mergedDocId, sourceId });
+          missing.push(sourceId);
+        }
+      }
+
+      // 2. 統合ドキュメントをアーカイブまたは削除（アクティブなままでは統合元を復元できない）
+      if (mode === 'delete') {
+        await this.documentManager.deleteDocument(mergedDocId);
+      } else {
+        await this.documentManager.archiveDocument(mergedDocId, {
+          actor,
+          action: 'rolled_back',
+          reason,
+          details: { restored: sources, missing },
+        });
+      }
+
+      // 3. 統合元をアーカイブから復元
+      for (const sourceId of sources) {
+        await this.documentManager.restoreDocument(sourceId, {
+          actor,
+          reason,
+          details: { merged_doc_id: mergedDocId },
+        });
+        restored.push(sourceId);
+      }
+    });
+    await this.removeFromVectorStore(mergedDocId);
+
+    // 4. メモリキャッシュとインデックスを再構築（復元したドキュメントはここで再インデックスされる）
+    await this.loadAllDocumentsIntoMemory();
+
+    // 5. 監査ログに記録
+    await this.auditLogger.log({
+      timestamp,
+      action: 'rollback_merge',
+      actor,
+      details: {
+        doc_id: mergedDocId,
+        mode,
+        reason,
+        restored,
+        missing,
+      },
+      impact: 'medium',
+    });
+
+    let text = `統合をロールバックしました: ${mergedDocId}\n`;
+    text += `- 復元したドキュメント: ${restored.length > 0 ? restored.join(', ') : 'なし'}\n`;
+    text += `- 統合ドキュメント: ${mode === 'delete' ? '削除' : 'アーカイブ'}しました`;
+
+    if (missing.length > 0) {
+      text += `\n\n⚠️ アーカイブに見つからなかったドキュメント: ${missing.join(', ')}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  }
+
+  /**
+   * scan_sensitive_dataツールを処理します
+   */
+  private async handleScanSensitiveData(args: ScanSensitiveDataArgs): Promise<CallToolResult> {
+    const { rewrite = false, reason } = args;
+
+    const report = await this.sensitiveDataScanner.scan({
+      rewrite,
+      actor: this.metadataExtractor.getGitInfo().email,
+      ...(reason !== undefined && { reason }),
+    });
+
+    // 書き戻したドキュメントをメモリキャッシュとBM25インデックスに反映
+    if (report.rewritten > 0) {
+      await this.loadAllDocumentsIntoMemory();
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: this.sensitiveDataScanner.formatReport(report),
+        },
+      ],
+    };
+  }
+
+  /**
+   * check_integrityツールを処理します
+   * dryRunが指定された場合はfixより優先し、書き込みを行わずに修正内容を返します
+   */
+  private async handleCheckIntegrity(args: CheckIntegrityArgs): Promise<CallToolResult> {
+    const { fix = false, dryRun = false } = args;
+
+    const report = await this.integrityChecker.checkIntegrity();
+    const recovery =
+      report.issues.length > 0 && (fix || dryRun)
+        ? await this.integrityChecker.recover(report.issues, { dryRun })
+        : undefined;
+
+    // 修正したドキュメントをメモリキャッシュとインデックスに反映
+    if (recovery && !recovery.dryRun && recovery.recovered > 0) {
+      await this.loadAllDocumentsIntoMemory();
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: this.integrityChecker.formatReport(report, recovery),
+        },
+      ],
+    };
+  }
+
+  /**
+   * accept_manual_editツールを処理します
+   */
+  private async handleAcceptManualEdit(args: AcceptManualEditArgs): Promise<CallToolResult> {
+    const { docId, reason } = args;
+    const actor = this.metadataExtractor.getGitInfo().email;
+
+    const doc = await this.documentManager.acceptManualEdit(docId, actor, reason);
+    if (!doc) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `ドキュメントはツールを介さずに編集されていません（ハッシュが一致しています）: ${docId}`,
+          },
+        ],
+      };
+    }
+
+    // アクティブなドキュメントはメモリキャッシュのメタデータも更新
+    if (this.documentCache.has(docId)) {
+      this.documentCache.set(docId, doc);
+    }
+
+    const details = doc.metadata.change_log?.at(-1)?.details ?? {};
+    await this.auditLogger.log({
+      timestamp: new Date().toISOString(),
+      action: 'manual_edit_accepted',
+      actor,
+      details: { doc_id: docId, ...details, ...(reason && { reason }) },
+      impact: 'medium',
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `手動編集を受け入れ、ハッシュを記録し直しました: ${docId}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * get_document_revisionsツールを処理します
+   * fromが指定された場合は差分を、指定されない場合はリビジョンの一覧を返します
+   */
+  private async handleGetDocumentRevisions(
+    args: GetDocumentRevisionsArgs
+  ): Promise<CallToolResult> {
+    const { docId, from, to } = args;
+
+    const revisions = await this.documentManager.listRevisions(docId);
+    if (!revisions) {
+      return {
+        content: [{ type: 'text', text: `ドキュメントが見つかりませんでした: ${docId}` }],
+      };
+    }
+
+    if (from !== undefined) {
+      const known = new Set(revisions.map((r) => r.revision));
+      const unknown = [from, to].filter((r) => r !== undefined && !known.has(r));
+      if (unknown.length > 0) {
+        return {
+          content: [
+            { type: 'text', text: `リビジョンが見つかりませんでした: ${unknown.join(', ')}` },
+          ],
+        };
+      }
+
+      const diff = await this.documentManager.diffRevisions(docId, from, to);
+      const target = to === undefined ? '現在の版' : `リビジョン ${to}`;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: diff
+              ? `# リビジョン ${from} → ${target} の差分\n\n\`\`\`diff\n${diff}\n\`\`\``
+              : `リビジョン ${from} と${target}に差分はありません（updated・change_log・content_hash を除く）`,
+          },
+        ],
+      };
+    }
+
+    if (revisions.length === 0) {
+      return {
+        content: [{ type: 'text', text: `保存されたリビジョンがありません: ${docId}` }],
+      };
+    }
+
+    const lines = revisions.map(({ revision, saved, document }) => {
+      const last = document.metadata.change_log?.at(-1);
+      const action = last
+        ? ` - ${last.action}（${last.author}${last.reason ? `: ${last.reason}` : ''}）`
+        : '';
+      return `- **リビジョン ${revision}** (保存: ${saved}, 更新: ${document.metadata.updated})${action}\n  サマリー: ${document.metadata.summary}`;
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            `# ドキュメントのリビジョン\n\n**ドキュメントID:** ${docId}\n\n` +
+            `${lines.join('\n')}\n\n` +
+            `差分は from（と to）を指定して確認できます。to を省略すると現在の版と比較します。`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * restore_revisionツールを処理します
+   */
+  private async handleRestoreRevision(args: RestoreRevisionArgs): Promise<CallToolResult> {
+    const { docId, revision, reason } = args;
+    const actor = this.metadataExtractor.getGitInfo().email;
+
+    if (!(await this.documentManager.getRevision(docId, revision))) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `リビジョンが見つかりませんでした: ${docId} のリビジョン ${revision}`,
+          },
+        ],
+      };
+    }
+
+    const doc = await this.documentManager.restoreRevision(docId, revision, {
+      actor,
+      ...(reason && { reason }),
+    });
+
+    // アクティブなドキュメントは内容が変わるため、ベクトルを作り直してメモリに読み込み直す
+    if (this.documentCache.has(docId)) {
+      await this.removeFromVectorStore(docId);
+      await this.loadAllDocumentsIntoMemory();
+    } else {
+      this.invalidateArchiveSearchIndex();
+    }
+
+    await this.auditLogger.log({
+      timestamp: new Date().toISOString(),
+      action: 'revision_restored',
+      actor,
+      details: { doc_id: docId, revision, ...(reason && { reason }) },
+      impact: 'medium',
+    });
+
+    const latest = (await this.documentManager.listRevisions(docId))?.at(-1);
 
     return {
       content: [
         {
           type: 'text',
-          text: `ロールバック機能は現在開発中です。\n統合元ドキュメント: ${doc.metadata.merged_from.join(', ')}`,
+          text:
+            `ドキュメントをリビジョン ${revision} の内容に戻しました: ${doc.metadata.summary}` +
+            (latest
+              ? `\n戻す前の内容はリビジョン ${latest.revision} として保存されています。`
+              : ''),
+        },
+      ],
+    };
+  }
+
+  /**
+   * apply_retention_policyツールを処理します
+   */
+  private async handleApplyRetentionPolicy(
+    args: ApplyRetentionPolicyArgs
+  ): Promise<CallToolResult> {
+    const { dryRun = false } = args;
+
+    const report = await this.retentionPolicy.apply({
+      dryRun,
+      actor: this.metadataExtractor.getGitInfo().email,
+    });
+    await this.applyRetentionReport(report);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: this.retentionPolicy.formatReport(report),
+        },
+      ],
+    };
+  }
+
+  /**
+   * audit_logツールを処理します
+   */
+  private async handleAuditLog(args: AuditLogArgs): Promise<CallToolResult> {
+    const { action, actor, impact, docId, startDate, endDate, limit, cursor } = args;
+    const { format = 'text' } = args;
+    const filters: LogFilters = {
+      ...(action !== undefined && { action }),
+      ...(actor !== undefined && { actor }),
+      ...(impact !== undefined && { impact }),
+      ...(docId !== undefined && { docId }),
+      ...(startDate !== undefined && { startDate }),
+      ...(endDate !== undefined && { endDate }),
+    };
+
+    let page: AuditLogPage;
+    try {
+      page = await this.auditLogger.searchPage(filters, {
+        ...(limit !== undefined && { limit }),
+        ...(cursor !== undefined && { cursor }),
+      });
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `監査ログを検索できませんでした: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            format === 'json' ? JSON.stringify(page, null, 2) : this.auditLogger.formatPage(page),
         },
       ],
     };
@@ -938,6 +2191,15 @@ ${changeLog
    */
   async shutdown(): Promise<void> {
     this.logger.info('Shutting down MCP Server');
+    this.fileWatcher.stopWatching();
+    if (this.relatedFilesTimer) {
+      clearInterval(this.relatedFilesTimer);
+      this.relatedFilesTimer = null;
+    }
+    if (this.retentionTimer) {
+      clearInterval(this.retentionTimer);
+      this.retentionTimer = null;
+    }
     await this.mcpServer.close();
   }
 }
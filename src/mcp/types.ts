@@ -5,6 +5,7 @@
 
 import { z } from 'zod';
 import type { Document } from '../models/Document.js';
+import type { HybridSearchResult } from '../services/HybridRanker.js';
 
 /**
  * MCPツールのZodスキーマ定義
@@ -16,17 +17,47 @@ export const SearchRelatedDocsSchema = z.object({
     .number()
     .optional()
     .describe('Similarity threshold for results (0.0-1.0, default: 0.7)'),
+  includeArchived: z
+    .boolean()
+    .optional()
+    .describe('Include archived documents in the results (default: search.includeArchived)'),
 });
 
 export const RecordImplementationSchema = z.object({
   files: z.array(z.string()).describe('Array of file paths that were changed'),
   prompt: z.string().describe('The prompt or task description'),
   summary: z.string().optional().describe('Optional custom summary (auto-generated if omitted)'),
+  diffMode: z
+    .enum(['preview', 'head', 'base', 'staged'])
+    .optional()
+    .describe(
+      'What to record per file: "preview" (first 500 chars), "head" (diff against HEAD), "base" (diff against baseRef) or "staged" (staged changes only). Default: git.diffMode'
+    ),
+  baseRef: z
+    .string()
+    .optional()
+    .describe('Base ref for diffMode "base" (default: git.diffBaseRef)'),
+  reason: z.string().optional().describe('Why the document is recorded (stored in change_log)'),
 });
 
 export const ManageDocumentsSchema = z.object({
-  action: z.enum(['archive', 'delete']).describe('Action to perform on the document'),
+  action: z
+    .enum([
+      'archive',
+      'restore',
+      'delete',
+      'pin',
+      'unpin',
+      'protect',
+      'unprotect',
+      'mark_reviewed',
+      'review_merge',
+    ])
+    .describe(
+      'Action to perform on the document ("restore" brings an archived document back; "pin" and "protect" exclude it from automated cleanup, merge and quality fixes, and pinned documents rank higher in search_related_docs; "mark_reviewed" clears needs_review after the document was checked against its changed related files; "review_merge" marks a merged document as reviewed, which keeps it out of the retention policy)'
+    ),
   docId: z.string().describe('Document ID to manage'),
+  reason: z.string().optional().describe('Why the action is performed (stored in change_log)'),
 });
 
 export const MergeSimilarDocsSchema = z.object({
@@ -38,11 +69,16 @@ export const MergeSimilarDocsSchema = z.object({
     .boolean()
     .optional()
     .describe('Automatically merge without confirmation (default: false)'),
+  reason: z.string().optional().describe('Why the documents are merged (stored in change_log)'),
 });
 
 export const SearchByKeywordSchema = z.object({
   keyword: z.string().describe('Keyword to search for in document content'),
   tags: z.array(z.string()).optional().describe('Optional tags to filter by'),
+  includeArchived: z
+    .boolean()
+    .optional()
+    .describe('Include archived documents in the results (default: search.includeArchived)'),
 });
 
 export const PreviewMergeSchema = z.object({
@@ -62,6 +98,95 @@ export const GetDocumentHistorySchema = z.object({
 
 export const RollbackMergeSchema = z.object({
   mergedDocId: z.string().describe('The merged document ID to rollback'),
+  mode: z
+    .enum(['archive', 'delete'])
+    .optional()
+    .describe('What to do with the merged document after rollback (default: archive)'),
+  reason: z.string().optional().describe('Why the merge is rolled back (stored in change_log)'),
+});
+
+export const ScanSensitiveDataSchema = z.object({
+  rewrite: z
+    .boolean()
+    .optional()
+    .describe('Mask detected sensitive data and rewrite the documents (default: false)'),
+  reason: z
+    .string()
+    .optional()
+    .describe('Why the documents are rewritten (stored in change_log when rewrite is true)'),
+});
+
+export const CheckIntegritySchema = z.object({
+  fix: z
+    .boolean()
+    .optional()
+    .describe('Apply recoveries for the detected issues and save the changes (default: false)'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe(
+      'Preview the exact file changes each recovery would make without writing anything (default: false)'
+    ),
+});
+
+export const AcceptManualEditSchema = z.object({
+  docId: z.string().describe('ID of the document that was edited outside the tool'),
+  reason: z
+    .string()
+    .optional()
+    .describe('Why the manual edit is legitimate (recorded in change_log)'),
+});
+
+export const GetDocumentRevisionsSchema = z.object({
+  docId: z.string().describe('Document ID to list revisions for'),
+  from: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Revision to diff from. When omitted, the revisions are listed instead'),
+  to: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Revision to diff to (default: the current version)'),
+});
+
+export const RestoreRevisionSchema = z.object({
+  docId: z.string().describe('Document ID to restore'),
+  revision: z.number().int().positive().describe('Revision number to restore the document to'),
+  reason: z.string().optional().describe('Why the revision is restored (stored in change_log)'),
+});
+
+export const ApplyRetentionPolicySchema = z.object({
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe(
+      'Report the documents that would be archived without archiving them (default: false)'
+    ),
+});
+
+export const AuditLogSchema = z.object({
+  action: z.string().optional().describe('Only entries with this action (e.g. "merge_documents")'),
+  actor: z.string().optional().describe('Only entries recorded by this actor (e.g. "system")'),
+  impact: z.enum(['low', 'medium', 'high']).optional().describe('Only entries with this impact'),
+  docId: z.string().optional().describe('Only entries whose details reference this document ID'),
+  startDate: z.string().optional().describe('Only entries at or after this time (ISO 8601)'),
+  endDate: z.string().optional().describe('Only entries at or before this time (ISO 8601)'),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(200)
+    .optional()
+    .describe('Maximum number of entries per page (default: 20)'),
+  cursor: z
+    .string()
+    .optional()
+    .describe('nextCursor from the previous page to continue with older entries'),
+  format: z.enum(['text', 'json']).optional().describe('Output format (default: text)'),
 });
 
 /**
@@ -76,6 +201,13 @@ export type PreviewMergeArgs = z.infer<typeof PreviewMergeSchema>;
 export type CheckDocumentQualityArgs = z.infer<typeof CheckDocumentQualitySchema>;
 export type GetDocumentHistoryArgs = z.infer<typeof GetDocumentHistorySchema>;
 export type RollbackMergeArgs = z.infer<typeof RollbackMergeSchema>;
+export type ScanSensitiveDataArgs = z.infer<typeof ScanSensitiveDataSchema>;
+export type CheckIntegrityArgs = z.infer<typeof CheckIntegritySchema>;
+export type AcceptManualEditArgs = z.infer<typeof AcceptManualEditSchema>;
+export type GetDocumentRevisionsArgs = z.infer<typeof GetDocumentRevisionsSchema>;
+export type RestoreRevisionArgs = z.infer<typeof RestoreRevisionSchema>;
+export type ApplyRetentionPolicyArgs = z.infer<typeof ApplyRetentionPolicySchema>;
+export type AuditLogArgs = z.infer<typeof AuditLogSchema>;
 
 /**
  * プロジェクトコンテキスト（メモリ内インデックス）
@@ -94,6 +226,14 @@ export interface DocumentWithSimilarity extends Document {
   similarity: number;
 }
 
+/**
+ * ハイブリッドランキング結果付きドキュメント
+ */
+export interface RankedDocument {
+  doc: Document;
+  ranking: HybridSearchResult;
+}
+
 /**
  * MCPツール定義
  */
@@ -31,4 +31,29 @@ export interface LogFilters {
   action?: string;
   /** 主体でフィルター */
   actor?: string;
+  /** 影響レベルでフィルター */
+  impact?: AuditLogEntry['impact'];
+  /** 詳細にドキュメントIDを含むエントリでフィルター */
+  docId?: string;
+}
+
+/**
+ * 監査ログのページ取得オプション
+ */
+export interface AuditLogPageOptions {
+  /** 1ページの最大件数 */
+  limit?: number;
+  /** 前のページの nextCursor（省略すると最新のエントリから） */
+  cursor?: string;
+}
+
+/**
+ * 監査ログの検索結果の1ページ（新しい順）
+ */
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  /** フィルターに一致したエントリの総数 */
+  total: number;
+  /** 次のページのカーソル（最後のページではなし） */
+  nextCursor?: string;
 }
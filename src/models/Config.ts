@@ -36,12 +36,20 @@ export interface VectorStoreConfig {
  * ドキュメントマネージャーの設定
  */
 export interface DocumentManagerConfig {
-  /** ドキュメントを自動アーカイブするまでの日数 */
+  /** 最終更新からドキュメントを自動アーカイブするまでの日数 */
   autoArchiveDays: number;
   /** 保持する最大ドキュメント数 */
   maxDocuments: number;
   /** 自動クリーンアップを有効にする */
   autoCleanup: boolean;
+  /** 保持ポリシーを適用する間隔（時間、0で起動時のみ） */
+  retentionIntervalHours: number;
+  /** この品質スコアを下回るドキュメントをアーカイブする（0で無効） */
+  minQualityScore: number;
+  /** 関連ファイルがすべて存在しないドキュメントをアーカイブする */
+  archiveUnreferenced: boolean;
+  /** 保持ポリシーを自動適用する際にアーカイブせずレポートのみ記録する */
+  retentionDryRun: boolean;
 }
 
 /**
@@ -52,6 +60,16 @@ export interface SearchConfig {
   maxResults: number;
   /** 検索にアーカイブされたドキュメントを含める */
   includeArchived: boolean;
+  /** ハイブリッド検索におけるBM25スコアの重み */
+  bm25Weight: number;
+  /** ハイブリッド検索におけるベクトル類似度の重み */
+  vectorWeight: number;
+  /** BM25の単語頻度飽和パラメータ */
+  bm25K1: number;
+  /** BM25の文書長正規化パラメータ（0.0-1.0） */
+  bm25B: number;
+  /** 関連ドキュメント検索で固定されたドキュメントのスコアに加算する値 */
+  pinnedBoost: number;
 }
 
 /**
@@ -62,6 +80,14 @@ export interface GitConfig {
   enabled: boolean;
   /** 変更を自動コミットする */
   autoCommit: boolean;
+  /** record_implementationで本文に記録する変更内容（preview: ファイル先頭のプレビュー） */
+  diffMode: 'preview' | 'head' | 'base' | 'staged';
+  /** diffModeが"base"の場合の基準ref */
+  diffBaseRef: string;
+  /** ファイルごとに保持する最大ハンク数 */
+  maxDiffHunks: number;
+  /** 1ハンクあたりの最大行数 */
+  maxDiffLinesPerHunk: number;
 }
 
 /**
@@ -74,6 +100,8 @@ export interface FileWatcherConfig {
   syncIntervalSeconds: number;
   /** Gitフックの変更を監視する */
   watchGitHooks: boolean;
+  /** 関連ファイル（related_files）の変更を検出し、ドキュメントを要見直しとしてマークする */
+  trackRelatedFiles: boolean;
 }
 
 /**
@@ -100,6 +128,10 @@ export interface SensitiveDataConfig {
   warnUser: boolean;
   /** カスタムパターンファイルへのパス */
   customPatternsPath: string;
+  /** 個人情報（メールアドレス・電話番号・IPアドレスなど）を検出する */
+  detectPii: boolean;
+  /** 個人情報を自動でマスクする（機密データのautoMaskとは独立） */
+  maskPii: boolean;
 }
 
 /**
@@ -8,12 +8,39 @@
  */
 export interface ChangeLogEntry {
   timestamp: string; // ISO 8601形式
-  action: string; // "created" | "updated" | "merged" | "archived"
+  action: string; // "created" | "updated" | "merged" | "archived" | "restored"
   author: string; // アクションを実行したユーザー
   reason?: string; // 変更の理由
+  details?: Record<string, unknown>; // 追加の詳細情報（変更したフィールドの差分は changes）
+}
+
+/**
+ * メタデータのフィールド単位の変更（変更前・変更後にないフィールドは省略）
+ */
+export interface FieldChange {
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * ドキュメントを変更する操作の記録内容（change_log のエントリになる）
+ */
+export interface ChangeContext {
+  actor?: string; // 実行者（省略時はGitのユーザー）
+  action?: string; // アクション名（省略時は操作ごとの既定値）
+  reason?: string; // 変更の理由
   details?: Record<string, unknown>; // 追加の詳細情報
 }
 
+/**
+ * 書き込み時に記録するコンテンツハッシュ（SHA-256）
+ * ツールを介さずに編集されたドキュメントの検出に使用する
+ */
+export interface ContentHash {
+  body: string; // 本文のハッシュ
+  front_matter: string; // content_hash を除いて正規化したフロントマターのハッシュ
+}
+
 /**
  * データ設計で定義されたスキーマに従うドキュメントメタデータ
  */
@@ -25,15 +52,22 @@ export interface DocumentMetadata {
   tags: string[]; // 自動生成 + 手動タグ
   prompt_hash: string; // SHA-256ハッシュ
   related_files: string[]; // 変更されたファイルパス
+  related_file_aliases?: Record<string, string[]>; // リネーム前のパス（現在のパス → 以前のパス）
+  related_file_hashes?: Record<string, string>; // 記録時点の関連ファイルのGitブロブハッシュ（パス → ハッシュ）
   summary: string; // 1行の要約
   ultra_summary: string; // 超圧縮要約（約50文字）
   standard_summary: string; // 標準要約（約200文字）
   embedding_model: string; // 使用された埋め込みモデル
   version: string; // スキーマバージョン
 
+  // 変更差分関連（差分を記録したドキュメントのみ）
+  diff_base?: string; // 差分の基準（"HEAD" | "staged" | 基準ref）
+  lines_added?: number; // 追加行数
+  lines_removed?: number; // 削除行数
+
   // ドキュメントマージ関連（マージされたドキュメントのみ）
   merged_from?: string[]; // ソースドキュメントIDの配列
-  merge_method?: string; // "ai_unified" | "manual"
+  merge_method?: string; // "ai_unified" | "structured_concat" | "manual"
   merge_timestamp?: string; // マージ日時（ISO 8601形式）
   is_merged?: boolean; // マージフラグ
   merge_reviewed?: boolean; // レビュー済みフラグ
@@ -44,9 +78,18 @@ export interface DocumentMetadata {
   freshness_score?: number; // 鮮度スコア（0.0-1.0）
   completeness_score?: number; // 完全性スコア（0.0-1.0）
   reference_count?: number; // 参照回数
+  needs_review?: boolean; // 関連ファイルの変更により見直しが必要
+  stale_reason?: string; // 見直しが必要になった理由
+
+  // 固定・保護（自動アーカイブ・マージ・品質修正の対象外）
+  pinned?: boolean; // 固定フラグ（関連ドキュメント検索で優先して表示）
+  protected?: boolean; // 保護フラグ
 
   // 変更履歴
   change_log?: ChangeLogEntry[]; // 変更ログエントリの配列
+
+  // 改ざん検出
+  content_hash?: ContentHash; // 最後に書き込んだ時点のハッシュ
 }
 
 /**
@@ -57,6 +100,29 @@ export interface Document {
   content: string; // Markdownコンテンツ
   file_path: string; // ファイルシステムパス
   vector?: number[]; // 埋め込みベクトル（メモリ内のみ）
+  sensitive_findings?: SensitiveDataFinding[]; // 書き込み時に検出された機密データ（メモリ内のみ）
+}
+
+/**
+ * 書き換え前に保存された以前の版のドキュメント
+ */
+export interface DocumentRevision {
+  revision: number; // 1から始まる連番（古い順）
+  saved: string; // 保存日時（ISO 8601形式）
+  document: Document;
+}
+
+/**
+ * ドキュメント書き込み時に検出された機密データの概要
+ * 検出値そのものは含めない
+ */
+export interface SensitiveDataFinding {
+  field: string; // 検出されたフィールド（"content" | "summary" など）
+  pattern: string; // 検出パターン名
+  category: string; // カテゴリ（"secret" | "pii"）
+  severity: string; // 深刻度
+  count: number; // 検出件数
+  masked: boolean; // マスクされたか
 }
 
 /**
@@ -66,4 +132,16 @@ export interface CreateDocParams {
   files: string[];
   prompt: string;
   summary?: string;
+  content?: string; // 指定時はファイルから本文を生成せずにこの本文を使用
+  diff?: DiffCaptureOptions; // 指定時はファイルプレビューの代わりにGit差分を記録
+}
+
+/**
+ * 本文にGit差分を記録するためのオプション
+ */
+export interface DiffCaptureOptions {
+  mode: 'head' | 'base' | 'staged';
+  baseRef?: string; // modeが"base"の場合の基準ref
+  maxHunks: number; // ファイルごとの最大ハンク数
+  maxLinesPerHunk: number; // 1ハンクあたりの最大行数
 }
@@ -6,17 +6,38 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { Logger } from '../utils/logger.js';
-import type { AuditLogEntry, LogFilters } from '../models/AuditLogEntry.js';
+import { withFileLock } from '../utils/fileLock.js';
+import type {
+  AuditLogEntry,
+  AuditLogPage,
+  AuditLogPageOptions,
+  LogFilters,
+} from '../models/AuditLogEntry.js';
+
+/**
+ * searchPage の1ページのデフォルト件数
+ */
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * ページのカーソル（このタイムスタンプ以前のエントリのうち、同じタイムスタンプの先頭 skip 件は返却済み）
+ */
+interface AuditLogCursor {
+  before: string;
+  skip: number;
+}
 
 /**
  * 監査ログを管理する監査ログクラス
  */
 export class AuditLogger {
   private logPath: string;
+  private lockPath: string;
   private logger: Logger;
 
   constructor() {
     this.logPath = path.join(process.cwd(), '.claude/docs/.audit/audit.log');
+    this.lockPath = path.join(path.dirname(this.logPath), '.audit.lock');
     this.logger = new Logger('AuditLogger');
   }
 
@@ -33,53 +54,122 @@ export class AuditLogger {
   /**
    * 監査エントリをログに記録
    * JSON形式でエントリを記録し、ローテーションをチェック
+   * 他のプロセスの追記やローテーションと混ざらないよう、ロック中に1行を1回の書き込みで追記する
    * @param entry - 記録する監査ログエントリ
    */
   async log(entry: AuditLogEntry): Promise<void> {
     const logLine = JSON.stringify(entry) + '\n';
 
-    await fs.appendFile(this.logPath, logLine, 'utf-8');
+    await withFileLock(this.lockPath, 'audit_log', async () => {
+      const handle = await fs.open(this.logPath, 'a');
+      try {
+        await handle.write(logLine, null, 'utf-8');
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
 
-    this.logger.debug('Audit log recorded', { action: entry.action });
+      // ローテーションが必要かチェック
+      await this.rotateIfNeeded();
+    });
 
-    // ローテーションが必要かチェック
-    await this.rotateIfNeeded();
+    this.logger.debug('Audit log recorded', { action: entry.action });
   }
 
   /**
    * フィルターを使用して監査ログを検索
+   * ローテーションされたアーカイブ（audit.<timestamp>.log）も含め、記録順に返す
    * @param filters - ログを検索するフィルター基準
    * @returns マッチする監査ログエントリの配列
    */
   async search(filters: LogFilters): Promise<AuditLogEntry[]> {
     try {
-      const content = await fs.readFile(this.logPath, 'utf-8');
-      const lines = content.split('\n').filter((line) => line.trim() !== '');
+      const entries: AuditLogEntry[] = [];
 
-      let entries: AuditLogEntry[] = lines.map((line) => JSON.parse(line) as AuditLogEntry);
-
-      // フィルターを適用
-      if (filters.startDate) {
-        entries = entries.filter((e) => e.timestamp >= filters.startDate!);
+      for (const file of await this.listLogFiles()) {
+        entries.push(...(await this.readLogFile(file)));
       }
 
-      if (filters.endDate) {
-        entries = entries.filter((e) => e.timestamp <= filters.endDate!);
-      }
+      return entries.filter((entry) => this.matchesFilters(entry, filters));
+    } catch (error) {
+      this.logger.warn('Failed to search audit logs', { error });
+      return [];
+    }
+  }
+
+  /**
+   * 監査ログを新しい順に検索し、カーソルでページ分割して返す
+   * カーソルは最後に返したエントリのタイムスタンプを基準にするため、
+   * ページをたどる間に追記やローテーションがあっても重複・欠落しない
+   * @param filters - ログを検索するフィルター基準
+   * @param options - 件数とカーソル
+   * @throws カーソルが不正な場合
+   */
+  async searchPage(filters: LogFilters, options: AuditLogPageOptions = {}): Promise<AuditLogPage> {
+    const { limit = DEFAULT_PAGE_SIZE } = options;
+    const cursor = options.cursor !== undefined ? decodeCursor(options.cursor) : null;
+    if (options.cursor !== undefined && !cursor) {
+      throw new Error(`Invalid audit log cursor: ${options.cursor}`);
+    }
+
+    // 同じタイムスタンプのエントリは後に記録されたものを先にする
+    const sorted = (await this.search(filters))
+      .map((entry, index) => ({ entry, index }))
+      .sort((a, b) => b.entry.timestamp.localeCompare(a.entry.timestamp) || b.index - a.index)
+      .map(({ entry }) => entry);
 
-      if (filters.action) {
-        entries = entries.filter((e) => e.action === filters.action);
+    let start = 0;
+    if (cursor) {
+      let sameTimestamp = 0;
+      for (; start < sorted.length; start++) {
+        const { timestamp } = sorted[start]!;
+        if (timestamp < cursor.before) break;
+        if (timestamp === cursor.before) {
+          if (sameTimestamp === cursor.skip) break;
+          sameTimestamp++;
+        }
       }
+    }
+
+    const end = start + limit;
+    const entries = sorted.slice(start, end);
+    const last = entries.at(-1);
+
+    return {
+      entries,
+      total: sorted.length,
+      ...(last &&
+        end < sorted.length && {
+          nextCursor: encodeCursor({
+            before: last.timestamp,
+            skip: sorted.slice(0, end).filter((e) => e.timestamp === last.timestamp).length,
+          }),
+        }),
+    };
+  }
+
+  /**
+   * 検索結果のページをテキスト形式にする
+   */
+  formatPage(page: AuditLogPage): string {
+    if (page.entries.length === 0) {
+      return '条件に一致する監査ログはありませんでした。';
+    }
+
+    let text = `# 監査ログ（${page.entries.length}件 / 全${page.total}件）\n\n`;
 
-      if (filters.actor) {
-        entries = entries.filter((e) => e.actor === filters.actor);
+    for (const entry of page.entries) {
+      text += `- ${entry.timestamp} [${entry.impact}] ${entry.action} by ${entry.actor}\n`;
+      if (Object.keys(entry.details).length > 0) {
+        text += `  ${JSON.stringify(entry.details)}\n`;
       }
+    }
 
-      return entries;
-    } catch (error) {
-      this.logger.warn('Failed to search audit logs', { error });
-      return [];
+    if (page.nextCursor) {
+      text += `\n次のページ: cursor="${page.nextCursor}"\n`;
     }
+
+    return text;
   }
 
   /**
@@ -111,15 +201,10 @@ export class AuditLogger {
    * @returns 削除されたファイル数
    */
   async cleanupOldLogs(daysThreshold: number): Promise<number> {
-    const dir = path.dirname(this.logPath);
-    const files = await fs.readdir(dir);
     const threshold = Date.now() - daysThreshold * 24 * 60 * 60 * 1000;
     let count = 0;
 
-    for (const file of files) {
-      if (!file.startsWith('audit.') || !file.endsWith('.log')) continue;
-
-      const filePath = path.join(dir, file);
+    for (const filePath of await this.listRotatedFiles()) {
       const stats = await fs.stat(filePath);
 
       if (stats.mtimeMs < threshold) {
@@ -131,4 +216,113 @@ export class AuditLogger {
     this.logger.info('Old audit logs cleaned up', { count });
     return count;
   }
+  /**
+   * ローテーションされたアーカイブ（古い順）と現在のログファイル
+   */
+  private async listLogFiles(): Promise<string[]> {
+    return [...(await this.listRotatedFiles()), this.logPath];
+  }
+
+  /**
+   * ローテーションされたアーカイブ（audit.<timestamp>.log）を古い順に取得
+   */
+  private async listRotatedFiles(): Promise<string[]> {
+    const dir = path.dirname(this.logPath);
+    const base = path.basename(this.logPath, '.log');
+
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch {
+      return [];
+    }
+
+    // タイムスタンプはISO 8601形式のため、ファイル名の順が記録順になる
+    return files
+      .filter((file) => file.startsWith(`${base}.`) && file.endsWith('.log'))
+      .filter((file) => file !== path.basename(this.logPath))
+      .sort()
+      .map((file) => path.join(dir, file));
+  }
+
+  /**
+   * ログファイルのエントリを読み込む
+   * 書き込み途中で中断された行は読み飛ばす
+   */
+  private async readLogFile(filePath: string): Promise<AuditLogEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    return content
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as AuditLogEntry];
+        } catch {
+          this.logger.warn('Skipping malformed audit log line', { file: filePath });
+          return [];
+        }
+      });
+  }
+
+  /**
+   * エントリがフィルターに一致するか判定
+   */
+  private matchesFilters(entry: AuditLogEntry, filters: LogFilters): boolean {
+    if (filters.startDate && entry.timestamp < filters.startDate) return false;
+    if (filters.endDate && entry.timestamp > filters.endDate) return false;
+    if (filters.action && entry.action !== filters.action) return false;
+    if (filters.actor && entry.actor !== filters.actor) return false;
+    if (filters.impact && entry.impact !== filters.impact) return false;
+    if (filters.docId && !referencesDocument(entry.details, filters.docId)) return false;
+    return true;
+  }
+}
+
+/**
+ * カーソルを文字列にエンコード
+ */
+function encodeCursor(cursor: AuditLogCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * カーソル文字列をデコード
+ * @returns 不正な場合はnull
+ */
+function decodeCursor(value: string): AuditLogCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8')) as unknown;
+    if (
+      typeof cursor === 'object' &&
+      cursor !== null &&
+      typeof (cursor as AuditLogCursor).before === 'string' &&
+      Number.isInteger((cursor as AuditLogCursor).skip) &&
+      (cursor as AuditLogCursor).skip >= 0
+    ) {
+      return cursor as AuditLogCursor;
+    }
+  } catch {
+    // 不正なカーソル
+  }
+  return null;
+}
+
+/**
+ * 詳細のいずれかの値（ネストした配列・オブジェクトを含む）がドキュメントIDと一致するか判定
+ * doc_id のほか merged_doc_id・source_ids・archived[].doc_id などに記録されたIDも対象にする
+ */
+function referencesDocument(value: unknown, docId: string): boolean {
+  if (typeof value === 'string') return value === docId;
+  if (Array.isArray(value)) return value.some((item) => referencesDocument(item, docId));
+  if (typeof value === 'object' && value !== null) {
+    return Object.values(value).some((item) => referencesDocument(item, docId));
+  }
+  return false;
 }
@@ -0,0 +1,197 @@
+/**
+ * BM25転置インデックス
+ * ファイル名や関数名などの識別子の完全一致に強いキーワード検索を提供
+ */
+
+import type { Document } from '../models/Document.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * BM25のパラメータ
+ */
+export interface BM25Options {
+  /** 単語頻度の飽和パラメータ */
+  k1: number;
+  /** 文書長の正規化パラメータ（0.0-1.0） */
+  b: number;
+}
+
+/**
+ * インデックス化されたドキュメントの統計情報
+ */
+interface IndexedDocument {
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * CJK文字（ひらがな・カタカナ・漢字）の判定用
+ */
+const CJK_REGEX = /[\u3040-\u30ff\u3400-\u9fff]/;
+
+/**
+ * summary・tags・related_files・本文を対象としたBM25転置インデックス
+ */
+export class BM25Index {
+  private options: BM25Options;
+  private documents: Map<string, IndexedDocument> = new Map();
+  private postings: Map<string, Set<string>> = new Map();
+  private totalLength = 0;
+  private logger: Logger;
+
+  constructor(options: BM25Options) {
+    this.options = options;
+    this.logger = new Logger('BM25Index');
+  }
+
+  /**
+   * ドキュメント群でインデックスを再構築
+   * @param docs - インデックス化するドキュメント
+   */
+  build(docs: Document[]): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+
+    for (const doc of docs) {
+      this.add(doc);
+    }
+
+    this.logger.debug('BM25 index built', {
+      documents: this.documents.size,
+      terms: this.postings.size,
+    });
+  }
+
+  /**
+   * ドキュメントを追加（同じIDが存在する場合は置き換え）
+   * @param doc - 追加するドキュメント
+   */
+  add(doc: Document): void {
+    const id = doc.metadata.id;
+    this.remove(id);
+
+    const tokens = BM25Index.tokenize(this.extractText(doc));
+    const termFrequencies = new Map<string, number>();
+
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+    }
+
+    for (const term of termFrequencies.keys()) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Set());
+      }
+      this.postings.get(term)!.add(id);
+    }
+
+    this.documents.set(id, { termFrequencies, length: tokens.length });
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * ドキュメントを削除
+   * @param id - 削除するドキュメントID
+   */
+  remove(id: string): void {
+    const indexed = this.documents.get(id);
+    if (!indexed) return;
+
+    for (const term of indexed.termFrequencies.keys()) {
+      const ids = this.postings.get(term);
+      if (!ids) continue;
+
+      ids.delete(id);
+      if (ids.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= indexed.length;
+    this.documents.delete(id);
+  }
+
+  /**
+   * クエリに対するBM25スコアを計算
+   * @param query - 検索クエリ
+   * @returns ドキュメントIDとBM25スコアのマップ（スコアが0のドキュメントは含まない）
+   */
+  search(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const docCount = this.documents.size;
+
+    if (docCount === 0) return scores;
+
+    const { k1, b } = this.options;
+    const avgLength = this.totalLength / docCount;
+    const queryTerms = new Set(BM25Index.tokenize(query));
+
+    for (const term of queryTerms) {
+      const ids = this.postings.get(term);
+      if (!ids) continue;
+
+      // Robertson-Sparck Jones IDF（負にならないよう+1）
+      const idf = Math.log(1 + (docCount - ids.size + 0.5) / (ids.size + 0.5));
+
+      for (const id of ids) {
+        const indexed = this.documents.get(id)!;
+        const tf = indexed.termFrequencies.get(term) || 0;
+        const norm = k1 * (1 - b + (b * indexed.length) / (avgLength || 1));
+        const score = (idf * tf * (k1 + 1)) / (tf + norm);
+
+        scores.set(id, (scores.get(id) || 0) + score);
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * インデックス化されているドキュメント数を取得
+   */
+  size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * インデックス対象のテキストを抽出
+   */
+  private extractText(doc: Document): string {
+    return [
+      doc.metadata.summary,
+      doc.metadata.tags.join(' '),
+      doc.metadata.related_files.join(' '),
+      doc.content,
+    ].join('\n');
+  }
+
+  /**
+   * テキストをトークンに分割
+   * 英数字は単語単位、CJK文字はバイグラムで分割する
+   * @param text - 分割するテキスト
+   * @returns トークンの配列
+   */
+  static tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+
+    for (const word of words) {
+      if (!CJK_REGEX.test(word)) {
+        tokens.push(word);
+        continue;
+      }
+
+      const chars = Array.from(word);
+      if (chars.length === 1) {
+        tokens.push(word);
+        continue;
+      }
+
+      for (let i = 0; i < chars.length - 1; i++) {
+        tokens.push(chars[i]! + chars[i + 1]!);
+      }
+    }
+
+    return tokens;
+  }
+}
@@ -33,19 +33,33 @@ const DEFAULT_CONFIG: RecorderConfig = {
     autoArchiveDays: 30,
     maxDocuments: 1000,
     autoCleanup: true,
+    retentionIntervalHours: 24,
+    minQualityScore: 0,
+    archiveUnreferenced: false,
+    retentionDryRun: false,
   },
   search: {
     maxResults: 3,
     includeArchived: false,
+    bm25Weight: 0.4,
+    vectorWeight: 0.6,
+    bm25K1: 1.2,
+    bm25B: 0.75,
+    pinnedBoost: 0.1,
   },
   git: {
     enabled: true,
     autoCommit: false,
+    diffMode: 'preview',
+    diffBaseRef: 'origin/main',
+    maxDiffHunks: 10,
+    maxDiffLinesPerHunk: 80,
   },
   fileWatcher: {
     enabled: true,
     syncIntervalSeconds: 60,
     watchGitHooks: true,
+    trackRelatedFiles: true,
   },
   integrityChecker: {
     checkOnStartup: true,
@@ -57,6 +71,8 @@ const DEFAULT_CONFIG: RecorderConfig = {
     autoMask: true,
     warnUser: true,
     customPatternsPath: '.claude/sensitive-patterns.json',
+    detectPii: true,
+    maskPii: true,
   },
   logging: {
     level: 'info',
@@ -127,7 +143,8 @@ export class ConfigManager {
 
         return mergedConfig;
       } else {
-        console.info(`Config file not found at ${this.configPath}, using defaults`);
+        // 標準出力はMCPのstdioトランスポートとCLIの結果に使うため標準エラー出力に書く
+        console.error(`Config file not found at ${this.configPath}, using defaults`);
         return { ...DEFAULT_CONFIG };
       }
     } catch (error) {
@@ -195,6 +212,25 @@ export class ConfigManager {
       });
     }
 
+    if (config.documentManager.retentionIntervalHours < 0) {
+      errors.push({
+        field: 'documentManager.retentionIntervalHours',
+        message: 'Must be non-negative',
+        value: config.documentManager.retentionIntervalHours,
+      });
+    }
+
+    if (
+      config.documentManager.minQualityScore < 0 ||
+      config.documentManager.minQualityScore > 100
+    ) {
+      errors.push({
+        field: 'documentManager.minQualityScore',
+        message: 'Must be between 0 and 100',
+        value: config.documentManager.minQualityScore,
+      });
+    }
+
     // 検索を検証
     if (config.search.maxResults <= 0) {
       errors.push({
@@ -204,6 +240,50 @@ export class ConfigManager {
       });
     }
 
+    if (config.search.bm25Weight < 0 || config.search.vectorWeight < 0) {
+      errors.push({
+        field: 'search.bm25Weight / search.vectorWeight',
+        message: 'Must be non-negative',
+        value: { bm25Weight: config.search.bm25Weight, vectorWeight: config.search.vectorWeight },
+      });
+    }
+
+    if (config.search.bm25Weight + config.search.vectorWeight <= 0) {
+      errors.push({
+        field: 'search.bm25Weight / search.vectorWeight',
+        message: 'At least one weight must be greater than 0',
+        value: { bm25Weight: config.search.bm25Weight, vectorWeight: config.search.vectorWeight },
+      });
+    }
+
+    if (config.search.bm25B < 0 || config.search.bm25B > 1) {
+      errors.push({
+        field: 'search.bm25B',
+        message: 'Must be between 0 and 1',
+        value: config.search.bm25B,
+      });
+    }
+
+    if (config.search.pinnedBoost < 0) {
+      errors.push({
+        field: 'search.pinnedBoost',
+        message: 'Must be non-negative',
+        value: config.search.pinnedBoost,
+      });
+    }
+
+    // Git統合を検証
+    if (config.git.maxDiffHunks <= 0 || config.git.maxDiffLinesPerHunk <= 0) {
+      errors.push({
+        field: 'git.maxDiffHunks / git.maxDiffLinesPerHunk',
+        message: 'Must be greater than 0',
+        value: {
+          maxDiffHunks: config.git.maxDiffHunks,
+          maxDiffLinesPerHunk: config.git.maxDiffLinesPerHunk,
+        },
+      });
+    }
+
     // ファイル監視を検証
     if (config.fileWatcher.syncIntervalSeconds <= 0) {
       errors.push({
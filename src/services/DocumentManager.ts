@@ -2,23 +2,57 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import matter from 'gray-matter';
-import type { Document, DocumentMetadata, CreateDocParams } from '../models/Document.js';
+import type {
+  ChangeContext,
+  ChangeLogEntry,
+  Document,
+  DocumentMetadata,
+  CreateDocParams,
+  DiffCaptureOptions,
+  DocumentRevision,
+  FieldChange,
+  SensitiveDataFinding,
+} from '../models/Document.js';
 import { MetadataExtractor } from './MetadataExtractor.js';
 import { Summarizer } from './Summarizer.js';
+import { SensitiveDataDetector } from './SensitiveDataDetector.js';
+import type { SensitiveCategory } from './SensitiveRulePack.js';
+import { ConfigManager } from './ConfigManager.js';
+import { AuditLogger } from './AuditLogger.js';
+import { DocumentManifest, type ManifestEntry, type ManifestQuery } from './DocumentManifest.js';
+import { RevisionStore } from './RevisionStore.js';
 import { Logger } from '../utils/logger.js';
+import { getFileDiff, hashWorkingTreeFiles } from '../utils/gitUtils.js';
+import { createLineDiff, summarizeDiff } from '../utils/diffUtils.js';
+import { writeFileAtomic } from '../utils/fileSystem.js';
+import { verifyContentHash, withContentHash } from '../utils/contentHash.js';
+import { appendChangeLog, diffMetadata } from '../utils/changeLog.js';
+import { withFileLock } from '../utils/fileLock.js';
 
 export class DocumentManager {
   private docsDir: string;
   private archiveDir: string;
+  private lockPath: string;
   private metadataExtractor: MetadataExtractor;
   private summarizer: Summarizer;
+  private sensitiveDataDetector: SensitiveDataDetector;
+  private config: ConfigManager;
+  private auditLogger: AuditLogger;
+  private manifest: DocumentManifest;
+  private revisions: RevisionStore;
   private logger: Logger;
 
-  constructor() {
+  constructor(auditLogger?: AuditLogger) {
     this.docsDir = path.join(process.cwd(), '.claude/docs');
     this.archiveDir = path.join(this.docsDir, '.archive');
+    this.lockPath = path.join(this.docsDir, '.lock');
     this.metadataExtractor = new MetadataExtractor();
     this.summarizer = new Summarizer();
+    this.sensitiveDataDetector = new SensitiveDataDetector();
+    this.config = ConfigManager.getInstance();
+    this.auditLogger = auditLogger || new AuditLogger();
+    this.manifest = new DocumentManifest(this.docsDir, this.archiveDir);
+    this.revisions = new RevisionStore(this.docsDir);
     this.logger = new Logger('DocumentManager');
   }
 
@@ -28,20 +62,45 @@ export class DocumentManager {
   async initialize(): Promise<void> {
     await fs.mkdir(this.docsDir, { recursive: true });
     await fs.mkdir(this.archiveDir, { recursive: true });
+
+    // マニフェストを読み込み、前回からのずれを反映
+    await this.manifest.load();
+
+    // カスタムの機密データパターンを読み込み
+    const sensitiveConfig = this.config.get('sensitiveData');
+    if (sensitiveConfig.enabled && sensitiveConfig.customPatternsPath) {
+      await this.sensitiveDataDetector.loadCustomPatterns(
+        path.resolve(process.cwd(), sensitiveConfig.customPatternsPath)
+      );
+    }
+
     this.logger.info('DocumentManager initialized');
   }
 
   /**
    * ドキュメントを作成
+   * @param params - 作成パラメータ
+   * @param context - change_log に記録する実行者・理由
    */
-  async createDocument(params: CreateDocParams): Promise<Document> {
-    const { files, prompt, summary: customSummary } = params;
+  async createDocument(params: CreateDocParams, context: ChangeContext = {}): Promise<Document> {
+    const { files, prompt, summary: customSummary, content: customContent, diff } = params;
 
     // メタデータ生成
     const metadata = this.generateMetadata(files, prompt);
 
-    // 本文生成
-    const content = await this.generateContent(files, prompt);
+    // 本文生成（本文が指定されていればそれを使用）
+    let content: string;
+    if (customContent !== undefined) {
+      content = customContent;
+    } else if (diff) {
+      const generated = this.generateDiffContent(files, prompt, diff);
+      content = generated.content;
+      metadata.diff_base = generated.base;
+      metadata.lines_added = generated.added;
+      metadata.lines_removed = generated.removed;
+    } else {
+      content = await this.generateContent(files, prompt);
+    }
 
     // 要約生成（カスタムサマリがなければ自動生成）
     const summary = customSummary || (await this.summarizer.summarize(content, 100));
@@ -51,23 +110,119 @@ export class DocumentManager {
     metadata.ultra_summary = await this.summarizer.summarize(content, 50);
     metadata.standard_summary = await this.summarizer.summarize(content, 200);
 
+    // 機密データを検出・マスク（ファイル名にサマリを使うため先に適用）
+    const checked = await this.applySensitiveDataPolicy(metadata, content);
+
     // ファイル名生成
-    const fileName = this.generateFileName(metadata);
+    const fileName = this.generateFileName(checked.metadata);
     const filePath = path.join(this.docsDir, fileName);
 
-    // Markdown作成（YAMLフロントマター + 本文）
-    const markdown = this.createMarkdown(metadata, content);
-
-    // ファイル保存
-    await fs.writeFile(filePath, markdown, 'utf-8');
+    // Markdown作成（YAMLフロントマター + 本文）してファイル保存
+    const written = await this.writeDocumentFile(
+      filePath,
+      appendChangeLog(checked.metadata, this.createChangeLogEntry('created', context)),
+      checked.content
+    );
 
     this.logger.info('Document created', { id: metadata.id, filePath });
 
     return {
-      metadata,
-      content,
+      metadata: written,
+      content: checked.content,
       file_path: filePath,
+      ...(checked.findings.length > 0 && { sensitive_findings: checked.findings }),
+    };
+  }
+
+  /**
+   * 書き込み前に本文とサマリの機密データを検出し、設定に応じてマスク
+   * 検出した場合は監査ログに記録する（criticalを含む場合はimpact: high）
+   * previous を渡した場合、書き換え前から同じフィールドにあった一致は検出結果に含めない
+   * （マスクしない設定で更新のたびに同じ検出を記録しないため）
+   */
+  private async applySensitiveDataPolicy(
+    metadata: DocumentMetadata,
+    content: string,
+    previous?: Pick<Document, 'metadata' | 'content'>
+  ): Promise<{ metadata: DocumentMetadata; content: string; findings: SensitiveDataFinding[] }> {
+    const { enabled, autoMask, detectPii, maskPii } = this.config.get('sensitiveData');
+    if (!enabled) {
+      return { metadata, content, findings: [] };
+    }
+
+    // 作成者のメールアドレスはauthorとして正当に保存されるためPIIとして扱わない
+    const categories: SensitiveCategory[] = detectPii ? ['secret', 'pii'] : ['secret'];
+    const maskCategories = categories.filter((c) => (c === 'pii' ? maskPii : autoMask));
+    const exempt = ([] as string[]).concat(metadata.author);
+
+    const findings: SensitiveDataFinding[] = [];
+    const scan = (field: string, value: string, previousValue?: string): string => {
+      const detected = this.sensitiveDataDetector.detect(value, { categories, exempt });
+      const known = new Set(
+        previousValue === undefined
+          ? []
+          : this.sensitiveDataDetector
+              .detect(previousValue, { categories, exempt })
+              .flatMap((d) => d.matches.map((match) => `${d.pattern}\0${match}`))
+      );
+
+      for (const d of detected) {
+        const count = d.matches.filter((match) => !known.has(`${d.pattern}\0${match}`)).length;
+        if (count === 0) continue;
+
+        findings.push({
+          field,
+          pattern: d.pattern,
+          category: d.category,
+          severity: d.severity,
+          count,
+          masked: maskCategories.includes(d.category),
+        });
+      }
+      return detected.length > 0 && maskCategories.length > 0
+        ? this.sensitiveDataDetector.sanitize(value, { categories: maskCategories, exempt })
+        : value;
     };
+
+    const checkedContent = scan('content', content, previous?.content);
+    const checkedMetadata: DocumentMetadata = {
+      ...metadata,
+      summary: scan('summary', metadata.summary, previous?.metadata.summary),
+      ultra_summary: scan(
+        'ultra_summary',
+        metadata.ultra_summary,
+        previous?.metadata.ultra_summary
+      ),
+      standard_summary: scan(
+        'standard_summary',
+        metadata.standard_summary,
+        previous?.metadata.standard_summary
+      ),
+    };
+
+    if (findings.length > 0) {
+      const hasCritical = findings.some((f) => f.severity === 'critical');
+
+      this.logger.warn('Sensitive data detected in document', {
+        id: metadata.id,
+        patterns: findings.map((f) => f.pattern),
+        masked: maskCategories,
+      });
+
+      await this.auditLogger.log({
+        timestamp: new Date().toISOString(),
+        action: 'sensitive_data_detected',
+        actor: 'system',
+        details: {
+          doc_id: metadata.id,
+          findings,
+          masked: maskCategories,
+        },
+        impact: hasCritical ? 'high' : 'medium',
+      });
+    }
+
+    return { metadata: checkedMetadata, content: checkedContent, findings };
   }
 
   /**
@@ -77,6 +232,8 @@ export class DocumentManager {
     const gitInfo = this.metadataExtractor.getGitInfo();
     const tags = this.metadataExtractor.generateTags(prompt, files);
     const promptHash = this.metadataExtractor.generatePromptHash(prompt);
+    // 記録時点の内容を残し、この状態をそのままコミットしただけの変更を関連ファイルの変更として扱わない
+    const fileHashes = hashWorkingTreeFiles(files);
 
     return {
       id: uuidv4(),
@@ -86,6 +243,7 @@ export class DocumentManager {
       tags,
       prompt_hash: promptHash,
       related_files: files,
+      ...(Object.keys(fileHashes).length > 0 && { related_file_hashes: fileHashes }),
       summary: '',
       ultra_summary: '',
       standard_summary: '',
@@ -122,11 +280,69 @@ export class DocumentManager {
     return content;
   }
 
+  /**
+   * Git差分を含むドキュメント本文を生成
+   * 差分が取得できないファイルは変更なしとして記録する
+   */
+  private generateDiffContent(
+    files: string[],
+    prompt: string,
+    options: DiffCaptureOptions
+  ): { content: string; base: string; added: number; removed: number } {
+    const base =
+      options.mode === 'staged' ? 'staged' : options.mode === 'base' ? options.baseRef! : 'HEAD';
+    let added = 0;
+    let removed = 0;
+
+    let content = `## 実装概要\n\n${prompt}\n\n`;
+
+    content += `## 実装詳細\n\n`;
+    content += `差分の基準: \`${base}\`\n\n`;
+
+    for (const file of files) {
+      const diff = getFileDiff(file, {
+        mode: options.mode,
+        ...(options.baseRef !== undefined && { baseRef: options.baseRef }),
+      });
+
+      if (diff === null) {
+        this.logger.warn('Failed to get diff', { file, base });
+        content += `### ${file}\n\n差分を取得できませんでした。\n\n`;
+        continue;
+      }
+
+      if (diff.trim() === '') {
+        content += `### ${file}\n\n変更はありません。\n\n`;
+        continue;
+      }
+
+      const summary = summarizeDiff(diff, {
+        maxHunks: options.maxHunks,
+        maxLinesPerHunk: options.maxLinesPerHunk,
+      });
+      added += summary.added;
+      removed += summary.removed;
+
+      content += `### ${file} (+${summary.added} / -${summary.removed})\n\n`;
+      content += `\`\`\`diff\n${summary.text}\n\`\`\`\n\n`;
+      if (summary.truncated) {
+        content += `_差分が大きいため一部を省略しています。_\n\n`;
+      }
+    }
+
+    content += `## 変更ファイル\n\n`;
+    files.forEach((file) => {
+      content += `- \`${file}\`\n`;
+    });
+
+    return { content, base, added, removed };
+  }
+
   /**
    * ファイル名を生成
    * 形式: YYYY-MM-DD_UUID_summary.md
    */
-  private generateFileName(metadata: DocumentMetadata): string {
+  generateFileName(metadata: DocumentMetadata): string {
     const date = metadata.created.split('T')[0]; // YYYY-MM-DD
     const uuid = metadata.id.split('-')[0]; // 最初のセグメントのみ
     const summary = metadata.summary
@@ -145,66 +361,223 @@ export class DocumentManager {
     return frontMatter;
   }
 
+  /**
+   * ドキュメントファイルをアトミックに書き込み、マニフェストに反映
+   * 書き込む内容のコンテンツハッシュをフロントマターに記録する
+   * 既存のファイルを書き換える場合は、書き換える前の内容をリビジョンとして保存する
+   * @returns 書き込んだメタデータ（content_hashを含む）
+   */
+  private async writeDocumentFile(
+    filePath: string,
+    metadata: DocumentMetadata,
+    content: string
+  ): Promise<DocumentMetadata> {
+    const hashed = withContentHash(metadata, content);
+    const markdown = this.createMarkdown(hashed, content);
+
+    await this.withLock('write', async () => {
+      await this.revisions.save(metadata.id, filePath);
+      await writeFileAtomic(filePath, markdown);
+      await this.manifest.upsert(hashed, filePath, markdown);
+    });
+
+    return hashed;
+  }
+
+  /**
+   * ドキュメントディレクトリのロックを取得して処理を実行
+   * 他のプロセスと競合する複数ステップの操作（マージ・アーカイブなど）を排他する
+   * 同じ処理の中では入れ子に呼び出せる
+   * @param operation - 操作名（ロックの保持者情報として記録）
+   * @param fn - ロック中に実行する処理
+   * @throws {LockHeldError} 他のプロセスがロックを保持し続けている場合
+   */
+  async withLock<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    return await withFileLock(this.lockPath, operation, fn);
+  }
+
   /**
    * ドキュメントを取得
    */
   async getDocument(id: string): Promise<Document | null> {
-    const files = await fs.readdir(this.docsDir);
+    return await this.findDocument(id, false);
+  }
 
-    for (const file of files) {
-      if (file.startsWith('.')) continue; // 隠しファイルをスキップ
-
-      const filePath = path.join(this.docsDir, file);
-      const fileContent = await fs.readFile(filePath, 'utf-8');
-      const parsed = matter(fileContent);
-
-      if (parsed.data.id === id) {
-        return {
-          metadata: parsed.data as DocumentMetadata,
-          content: parsed.content,
-          file_path: filePath,
-        };
+  /**
+   * アーカイブされたドキュメントを取得
+   */
+  async getArchivedDocument(id: string): Promise<Document | null> {
+    return await this.findDocument(id, true);
+  }
+
+  /**
+   * マニフェストをファイルシステムと突き合わせ、ずれがあれば反映
+   * ファイル監視で変更を検出した時などに呼び出す
+   * @returns ずれがあった場合true
+   */
+  async refreshManifest(): Promise<boolean> {
+    return await this.manifest.refresh();
+  }
+
+  /**
+   * ドキュメントの保存ディレクトリを取得
+   */
+  getDocsDir(): string {
+    return this.docsDir;
+  }
+
+  /**
+   * アーカイブの保存ディレクトリを取得
+   */
+  getArchiveDir(): string {
+    return this.archiveDir;
+  }
+
+  /**
+   * アーカイブされたドキュメントか判定
+   */
+  isArchived(doc: Document): boolean {
+    return path.dirname(doc.file_path) === this.archiveDir;
+  }
+
+  /**
+   * 固定・保護されたドキュメントか判定
+   * 該当するドキュメントは自動アーカイブ・マージ・品質修正の対象外
+   */
+  isProtected(doc: Document): boolean {
+    return doc.metadata.pinned === true || doc.metadata.protected === true;
+  }
+
+  /**
+   * ドキュメントのファイル名をIDと要約から生成した名前に変更（同じディレクトリ内）
+   * @throws 変更先のファイルが既に存在する場合
+   */
+  async renameDocumentFile(doc: Document): Promise<Document> {
+    return await this.withLock('rename', async () => {
+      const renamedPath = path.join(
+        path.dirname(doc.file_path),
+        this.generateFileName(doc.metadata)
+      );
+      if (renamedPath === doc.file_path) return doc;
+
+      try {
+        await fs.access(renamedPath);
+        throw new Error(`Cannot rename document, file already exists: ${renamedPath}`);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+
+      await fs.rename(doc.file_path, renamedPath);
+      await this.manifest.upsert(doc.metadata, renamedPath);
+      this.logger.info('Document file renamed', { id: doc.metadata.id, renamedPath });
+
+      return { ...doc, file_path: renamedPath };
+    });
+  }
+
+  /**
+   * ファイルパスを指定してドキュメントを読み込む
+   * @returns フロントマターにIDがない、または読み込めない場合はnull
+   */
+  async loadDocumentFromFile(filePath: string): Promise<Document | null> {
+    try {
+      const parsed = matter(await fs.readFile(filePath, 'utf-8'));
+      const metadata = parsed.data as DocumentMetadata;
+
+      if (!metadata.id) {
+        this.logger.warn('Document has no id in front matter', { filePath });
+        return null;
       }
+
+      return { metadata, content: parsed.content, file_path: filePath };
+    } catch (error) {
+      this.logger.warn('Failed to load document', { filePath, error });
+      return null;
+    }
+  }
+
+  /**
+   * マニフェストを使ってIDに一致するドキュメントを探す
+   * マニフェストとファイルがずれている場合は反映してから1度だけ探し直す
+   */
+  private async findDocument(id: string, archived: boolean): Promise<Document | null> {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const entry = await this.manifest.get(id);
+      const doc = entry && entry.archived === archived ? await this.loadEntry(entry) : null;
+
+      if (doc) return doc;
+      if (!(await this.manifest.refresh())) break;
     }
 
     return null;
   }
 
   /**
-   * ドキュメントを検索
+   * マニフェストのエントリからドキュメントを読み込む
+   * @returns ファイルが存在しない、またはIDが一致しない場合はnull
    */
-  async searchDocuments(query: { keyword?: string; tags?: string[] }): Promise<Document[]> {
-    const files = await fs.readdir(this.docsDir);
-    const results: Document[] = [];
+  private async loadEntry(entry: ManifestEntry): Promise<Document | null> {
+    try {
+      const filePath = this.manifest.resolvePath(entry);
+      const parsed = matter(await fs.readFile(filePath, 'utf-8'));
 
-    for (const file of files) {
-      if (file.startsWith('.')) continue;
+      if (parsed.data.id !== entry.id) return null;
 
-      const filePath = path.join(this.docsDir, file);
-      const fileContent = await fs.readFile(filePath, 'utf-8');
-      const parsed = matter(fileContent);
-      const metadata = parsed.data as DocumentMetadata;
+      return {
+        metadata: parsed.data as DocumentMetadata,
+        content: parsed.content,
+        file_path: filePath,
+      };
+    } catch {
+      return null;
+    }
+  }
 
+  /**
+   * マニフェストのエントリからドキュメントを読み込む
+   * 読み込めないエントリがあった場合はマニフェストを更新して読み込み直す
+   */
+  private async loadEntries(query: ManifestQuery): Promise<Document[]> {
+    for (let attempt = 0; ; attempt++) {
+      const entries = await this.manifest.query(query);
+      const docs = await Promise.all(entries.map((entry) => this.loadEntry(entry)));
+      const loaded = docs.filter((doc): doc is Document => doc !== null);
+
+      if (loaded.length === entries.length || attempt > 0 || !(await this.manifest.refresh())) {
+        return loaded;
+      }
+    }
+  }
+
+  /**
+   * ドキュメントを検索
+   * @param query - キーワード・タグ・アーカイブを含めるか（デフォルトはアクティブなドキュメントのみ）
+   */
+  async searchDocuments(query: {
+    keyword?: string;
+    tags?: string[];
+    includeArchived?: boolean;
+  }): Promise<Document[]> {
+    // タグはマニフェストで絞り込み、一致したドキュメントのみ本文を読み込む
+    const candidates = await this.loadEntries({
+      ...(!query.includeArchived && { archived: false }),
+      ...(query.tags && { tags: query.tags }),
+    });
+    const results: Document[] = [];
+
+    for (const doc of candidates) {
       // キーワード検索
       if (query.keyword) {
         const lowerKeyword = query.keyword.toLowerCase();
-        const inSummary = metadata.summary.toLowerCase().includes(lowerKeyword);
-        const inContent = parsed.content.toLowerCase().includes(lowerKeyword);
+        const inSummary = doc.metadata.summary.toLowerCase().includes(lowerKeyword);
+        const inContent = doc.content.toLowerCase().includes(lowerKeyword);
 
         if (!inSummary && !inContent) continue;
       }
 
-      // タグフィルタ
-      if (query.tags && query.tags.length > 0) {
-        const hasTag = query.tags.some((tag) => metadata.tags.includes(tag));
-        if (!hasTag) continue;
-      }
-
-      results.push({
-        metadata,
-        content: parsed.content,
-        file_path: filePath,
-      });
+      results.push(doc);
     }
 
     // 作成日時の新しい順にソート
@@ -217,79 +590,203 @@ export class DocumentManager {
 
   /**
    * ドキュメントを更新
+   * 変更したフィールドの差分を change_log に記録する（変更がなくアクション名の指定もない場合は記録しない）
+   * @param id - ドキュメントID
+   * @param updates - 更新するメタデータ
+   * @param context - change_log に記録する実行者・アクション・理由
    */
-  async updateDocument(id: string, updates: Partial<DocumentMetadata>): Promise<Document> {
-    const doc = await this.getDocument(id);
-    if (!doc) {
-      throw new Error(`Document not found: ${id}`);
-    }
+  async updateDocument(
+    id: string,
+    updates: Partial<DocumentMetadata>,
+    context: ChangeContext = {}
+  ): Promise<Document> {
+    return await this.modifyMetadata(id, (metadata) => ({ ...metadata, ...updates }), context);
+  }
 
-    const updatedMetadata = {
-      ...doc.metadata,
-      ...updates,
-      updated: new Date().toISOString(),
-    };
+  /**
+   * 関連ファイルの変更による要見直し（needs_review, stale_reason）を解除
+   * 関連ファイルの現在の内容を記録し直すため、以降はこの時点からの変更のみが対象になる
+   * @param id - ドキュメントID
+   * @param context - change_log に記録する実行者・理由
+   */
+  async markReviewed(id: string, context: ChangeContext = {}): Promise<Document> {
+    return await this.modifyMetadata(
+      id,
+      (metadata) => {
+        const reviewed = { ...metadata };
+        delete reviewed.needs_review;
+        delete reviewed.stale_reason;
+        delete reviewed.related_file_hashes;
+
+        const fileHashes = hashWorkingTreeFiles(metadata.related_files);
+        return Object.keys(fileHashes).length > 0
+          ? { ...reviewed, related_file_hashes: fileHashes }
+          : reviewed;
+      },
+      { action: 'reviewed', ...context }
+    );
+  }
+
+  /**
+   * メタデータを書き換えてupdatedを更新
+   */
+  private async modifyMetadata(
+    id: string,
+    transform: (metadata: DocumentMetadata) => DocumentMetadata,
+    context: ChangeContext
+  ): Promise<Document> {
+    return await this.withLock('update', async () => {
+      const doc = await this.getDocument(id);
+      if (!doc) {
+        throw new Error(`Document not found: ${id}`);
+      }
 
-    const markdown = this.createMarkdown(updatedMetadata, doc.content);
-    await fs.writeFile(doc.file_path, markdown, 'utf-8');
+      const updatedMetadata = {
+        ...transform(doc.metadata),
+        updated: new Date().toISOString(),
+      };
 
-    this.logger.info('Document updated', { id });
+      const checked = await this.applySensitiveDataPolicy(updatedMetadata, doc.content, doc);
+      const changes = diffMetadata(doc.metadata, checked.metadata);
 
-    return {
-      ...doc,
-      metadata: updatedMetadata,
-    };
+      const written = await this.writeDocumentFile(
+        doc.file_path,
+        Object.keys(changes).length > 0 || context.action
+          ? appendChangeLog(
+              checked.metadata,
+              this.createChangeLogEntry('updated', context, changes)
+            )
+          : checked.metadata,
+        checked.content
+      );
+
+      this.logger.info('Document updated', { id });
+
+      return {
+        ...doc,
+        metadata: written,
+        content: checked.content,
+        ...(checked.findings.length > 0 && { sensitive_findings: checked.findings }),
+      };
+    });
   }
 
   /**
    * ドキュメントを削除
    */
   async deleteDocument(id: string): Promise<void> {
-    const doc = await this.getDocument(id);
-    if (!doc) {
-      throw new Error(`Document not found: ${id}`);
-    }
+    await this.withLock('delete', async () => {
+      const doc = await this.getDocument(id);
+      if (!doc) {
+        throw new Error(`Document not found: ${id}`);
+      }
 
-    await fs.unlink(doc.file_path);
-    this.logger.info('Document deleted', { id });
+      await fs.unlink(doc.file_path);
+      await this.manifest.remove(id);
+      await this.revisions.remove(id);
+      this.logger.info('Document deleted', { id });
+    });
   }
 
   /**
    * ドキュメントをアーカイブ
+   * @param id - ドキュメントID
+   * @param context - change_log に記録する実行者・理由
    */
-  async archiveDocument(id: string): Promise<void> {
-    const doc = await this.getDocument(id);
-    if (!doc) {
-      throw new Error(`Document not found: ${id}`);
-    }
+  async archiveDocument(id: string, context: ChangeContext = {}): Promise<void> {
+    await this.withLock('archive', async () => {
+      const doc = await this.getDocument(id);
+      if (!doc) {
+        throw new Error(`Document not found: ${id}`);
+      }
+
+      const fileName = path.basename(doc.file_path);
+      const archivePath = path.join(this.archiveDir, fileName);
+
+      await fs.rename(doc.file_path, archivePath);
+      await this.manifest.upsert(doc.metadata, archivePath);
+      await this.writeDocumentFile(
+        archivePath,
+        appendChangeLog(doc.metadata, this.createChangeLogEntry('archived', context)),
+        doc.content
+      );
+      this.logger.info('Document archived', { id, archivePath });
+    });
+  }
+
+  /**
+   * アーカイブされたドキュメントを復元
+   * アクティブな統合ドキュメントの統合元は復元できない（rollback_merge を使う）
+   * @param id - ドキュメントID
+   * @param context - change_log に記録する実行者・理由
+   */
+  async restoreDocument(id: string, context: ChangeContext = {}): Promise<Document> {
+    return await this.withLock('restore', async () => {
+      const doc = await this.getArchivedDocument(id);
+      if (!doc) {
+        throw new Error(`Archived document not found: ${id}`);
+      }
+
+      // 統合ドキュメントがアクティブなまま統合元だけを戻すと、統合元が二重に存在する
+      const mergedInto = (await this.loadEntries({ archived: false })).find((active) =>
+        active.metadata.merged_from?.includes(id)
+      );
+      if (mergedInto) {
+        throw new Error(
+          `Cannot restore merge source ${id}: merged document ${mergedInto.metadata.id} is active. Use rollback_merge to undo the merge`
+        );
+      }
+
+      const fileName = path.basename(doc.file_path);
+      const restoredPath = path.join(this.docsDir, fileName);
+
+      try {
+        await fs.access(restoredPath);
+        throw new Error(`Cannot restore document, file already exists: ${restoredPath}`);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
 
-    const fileName = path.basename(doc.file_path);
-    const archivePath = path.join(this.archiveDir, fileName);
+      await fs.rename(doc.file_path, restoredPath);
+      await this.manifest.upsert(doc.metadata, restoredPath);
+      const written = await this.writeDocumentFile(
+        restoredPath,
+        appendChangeLog(doc.metadata, this.createChangeLogEntry('restored', context)),
+        doc.content
+      );
+      this.logger.info('Document restored', { id, restoredPath });
 
-    await fs.rename(doc.file_path, archivePath);
-    this.logger.info('Document archived', { id, archivePath });
+      return {
+        ...doc,
+        metadata: written,
+        file_path: restoredPath,
+      };
+    });
   }
 
   /**
    * 古いドキュメントを整理
+   * 固定・保護されたドキュメントはアーカイブしない
    */
   async cleanupOldDocuments(daysThreshold: number): Promise<number> {
-    const files = await fs.readdir(this.docsDir);
+    const context: ChangeContext = {
+      actor: 'system',
+      reason: `Created more than ${daysThreshold} days ago`,
+    };
+    const entries = await this.manifest.query({ archived: false });
     const threshold = Date.now() - daysThreshold * 24 * 60 * 60 * 1000;
     let count = 0;
 
-    for (const file of files) {
-      if (file.startsWith('.')) continue;
-
-      const filePath = path.join(this.docsDir, file);
-      const fileContent = await fs.readFile(filePath, 'utf-8');
-      const parsed = matter(fileContent);
-      const metadata = parsed.data as DocumentMetadata;
-
-      const createdTime = new Date(metadata.created).getTime();
+    for (const entry of entries) {
+      const createdTime = new Date(entry.created).getTime();
 
       if (createdTime < threshold) {
-        await this.archiveDocument(metadata.id);
+        const doc = await this.getDocument(entry.id);
+        if (!doc || this.isProtected(doc)) continue;
+
+        await this.archiveDocument(entry.id, context);
         count++;
       }
     }
@@ -317,4 +814,281 @@ export class DocumentManager {
   async getAllDocuments(): Promise<Document[]> {
     return await this.searchDocuments({});
   }
+
+  /**
+   * アーカイブされた全ドキュメントを取得
+   */
+  async getArchivedDocuments(): Promise<Document[]> {
+    return await this.loadEntries({ archived: true });
+  }
+
+  /**
+   * ドキュメントのメタデータと本文をそのままの場所に書き戻す
+   * アーカイブ済みのドキュメントにも使用できる
+   */
+  async saveDocument(doc: Document): Promise<Document> {
+    const metadata = await this.writeDocumentFile(
+      doc.file_path,
+      this.prepareForSave(doc.metadata),
+      doc.content
+    );
+
+    this.logger.info('Document saved', { id: metadata.id, filePath: doc.file_path });
+
+    return {
+      metadata,
+      content: doc.content,
+      file_path: doc.file_path,
+    };
+  }
+
+  /**
+   * saveDocumentで書き込まれるファイル内容を生成（書き込みは行わない）
+   * 修正内容を書き込み前にプレビューするために使用する
+   */
+  renderDocument(doc: Document): string {
+    return this.createMarkdown(
+      withContentHash(this.prepareForSave(doc.metadata), doc.content),
+      doc.content
+    );
+  }
+
+  /**
+   * ドキュメントの以前の版を取得（古い順）
+   * @param id - ドキュメントID（アクティブ・アーカイブのどちらでも可）
+   * @returns ドキュメントが見つからない場合はnull
+   */
+  async listRevisions(id: string): Promise<DocumentRevision[] | null> {
+    if (!(await this.findAnyDocument(id))) return null;
+
+    const revisions: DocumentRevision[] = [];
+    for (const { revision, file_path, saved } of await this.revisions.list(id)) {
+      const document = await this.loadDocumentFromFile(file_path);
+      if (document) {
+        revisions.push({ revision, saved, document });
+      }
+    }
+
+    return revisions;
+  }
+
+  /**
+   * ドキュメントの以前の版を取得
+   * @param id - ドキュメントID（アクティブ・アーカイブのどちらでも可）
+   * @param revision - リビジョン番号
+   * @returns ドキュメントまたはリビジョンが見つからない場合はnull
+   */
+  async getRevision(id: string, revision: number): Promise<Document | null> {
+    if (!(await this.findAnyDocument(id))) return null;
+
+    const filePath = await this.revisions.resolve(id, revision);
+    return filePath ? await this.loadDocumentFromFile(filePath) : null;
+  }
+
+  /**
+   * 2つの版の差分を行単位で作成
+   * 書き込みのたびに変わる updated・change_log・content_hash は比較から除く
+   * @param id - ドキュメントID
+   * @param from - 比較元のリビジョン番号
+   * @param to - 比較先のリビジョン番号（省略時は現在の版）
+   * @returns unified diff（差分がない場合は空文字列）
+   * @throws ドキュメントまたはリビジョンが見つからない場合
+   */
+  async diffRevisions(id: string, from: number, to?: number): Promise<string> {
+    const current = await this.findAnyDocument(id);
+    if (!current) {
+      throw new Error(`Document not found: ${id}`);
+    }
+
+    const load = async (revision: number | undefined) => {
+      if (revision === undefined) return current;
+
+      const doc = await this.getRevision(id, revision);
+      if (!doc) {
+        throw new Error(`Revision not found: ${id}@${revision}`);
+      }
+      return doc;
+    };
+
+    const before = await load(from);
+    const after = await load(to);
+
+    return createLineDiff(this.renderForDiff(before), this.renderForDiff(after), {
+      fromLabel: `revision ${from}`,
+      toLabel: to === undefined ? 'current' : `revision ${to}`,
+    });
+  }
+
+  /**
+   * ドキュメントを以前の版の内容に戻す
+   * 戻す前の内容も新しいリビジョンとして保存され、change_log は引き継いで記録を追加する
+   * @param id - ドキュメントID（アクティブ・アーカイブのどちらでも可）
+   * @param revision - 戻すリビジョン番号
+   * @param context - change_log に記録する実行者・理由
+   * @throws ドキュメントまたはリビジョンが見つからない場合
+   */
+  async restoreRevision(
+    id: string,
+    revision: number,
+    context: ChangeContext = {}
+  ): Promise<Document> {
+    return await this.withLock('restore_revision', async () => {
+      const doc = await this.findAnyDocument(id);
+      if (!doc) {
+        throw new Error(`Document not found: ${id}`);
+      }
+
+      const snapshot = await this.getRevision(id, revision);
+      if (!snapshot) {
+        throw new Error(`Revision not found: ${id}@${revision}`);
+      }
+
+      const restored: DocumentMetadata = {
+        ...snapshot.metadata,
+        id,
+        updated: new Date().toISOString(),
+      };
+      delete restored.change_log;
+      delete restored.content_hash;
+
+      const checked = await this.applySensitiveDataPolicy(restored, snapshot.content, doc);
+      const changes = diffMetadata(doc.metadata, checked.metadata);
+      const entry = this.createChangeLogEntry(
+        'revision_restored',
+        {
+          ...context,
+          details: {
+            ...context.details,
+            revision,
+            body_changed: doc.content.trim() !== checked.content.trim(),
+          },
+        },
+        changes
+      );
+
+      const written = await this.writeDocumentFile(
+        doc.file_path,
+        { ...checked.metadata, change_log: [...(doc.metadata.change_log ?? []), entry] },
+        checked.content
+      );
+
+      this.logger.info('Document restored to revision', { id, revision });
+
+      return {
+        ...doc,
+        metadata: written,
+        content: checked.content,
+        ...(checked.findings.length > 0 && { sensitive_findings: checked.findings }),
+      };
+    });
+  }
+
+  /**
+   * ドキュメントの全リビジョンの内容を書き換える
+   * 機密データをマスクした際に、以前の版に残った値も取り除くために使用する
+   * @returns 内容が変わったリビジョン数
+   */
+  async rewriteRevisions(id: string, transform: (content: string) => string): Promise<number> {
+    return await this.withLock('rewrite_revisions', async () => {
+      return await this.revisions.rewrite(id, transform);
+    });
+  }
+
+  /**
+   * アクティブまたはアーカイブのドキュメントを取得
+   */
+  private async findAnyDocument(id: string): Promise<Document | null> {
+    return (await this.getDocument(id)) ?? (await this.getArchivedDocument(id));
+  }
+
+  /**
+   * 版の比較用にドキュメントを書き出す（書き込みのたびに変わるフィールドを除く）
+   */
+  private renderForDiff(doc: Document): string {
+    const metadata: Partial<DocumentMetadata> = { ...doc.metadata };
+    delete metadata.updated;
+    delete metadata.change_log;
+    delete metadata.content_hash;
+
+    return matter.stringify(doc.content, metadata);
+  }
+
+  /**
+   * 操作の記録内容から change_log のエントリを作成
+   * @param defaultAction - アクション名が指定されていない場合のアクション
+   * @param context - 実行者・アクション・理由
+   * @param changes - 変更したフィールドの差分
+   */
+  private createChangeLogEntry(
+    defaultAction: string,
+    context: ChangeContext,
+    changes: Record<string, FieldChange> = {}
+  ): ChangeLogEntry {
+    const details = {
+      ...context.details,
+      ...(Object.keys(changes).length > 0 && { changes }),
+    };
+
+    return {
+      timestamp: new Date().toISOString(),
+      action: context.action ?? defaultAction,
+      author: context.actor ?? this.metadataExtractor.getGitInfo().email,
+      ...(context.reason && { reason: context.reason }),
+      ...(Object.keys(details).length > 0 && { details }),
+    };
+  }
+
+  /**
+   * 保存時のメタデータを作成（更新日時を設定）
+   */
+  private prepareForSave(metadata: DocumentMetadata): DocumentMetadata {
+    return {
+      ...metadata,
+      updated: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * ツールを介さずに編集されたドキュメントを正当な編集として受け入れる
+   * change_log に記録してからハッシュを記録し直す（ハッシュが未記録のドキュメントは記録のみ行う）
+   * @param id - ドキュメントID（アクティブ・アーカイブのどちらでも可）
+   * @param actor - 受け入れた実行者
+   * @param reason - 受け入れの理由
+   * @returns 更新したドキュメント。ハッシュが一致していて受け入れる編集がない場合はnull
+   * @throws ドキュメントが見つからない場合
+   */
+  async acceptManualEdit(id: string, actor: string, reason?: string): Promise<Document | null> {
+    return await this.withLock('accept_manual_edit', async () => {
+      const doc = await this.findAnyDocument(id);
+      if (!doc) {
+        throw new Error(`Document not found: ${id}`);
+      }
+
+      const verification = verifyContentHash(doc);
+      if (verification && !verification.bodyChanged && !verification.frontMatterChanged) {
+        return null;
+      }
+
+      doc.metadata.change_log = [
+        ...(doc.metadata.change_log ?? []),
+        {
+          timestamp: new Date().toISOString(),
+          action: 'manual_edit_accepted',
+          author: actor,
+          ...(reason && { reason }),
+          details: verification
+            ? {
+                body_changed: verification.bodyChanged,
+                front_matter_changed: verification.frontMatterChanged,
+              }
+            : { hash_recorded: true },
+        },
+      ];
+
+      const saved = await this.saveDocument(doc);
+      this.logger.info('Manual edit accepted', { id, verification });
+
+      return saved;
+    });
+  }
 }
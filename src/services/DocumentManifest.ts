@@ -0,0 +1,327 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import matter from 'gray-matter';
+import type { DocumentMetadata } from '../models/Document.js';
+import { writeFileAtomic } from '../utils/fileSystem.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * マニフェストのスキーマバージョン
+ */
+const MANIFEST_VERSION = 1;
+
+/**
+ * マニフェストのファイル名（.claude/docs 直下、隠しファイル）
+ */
+export const MANIFEST_FILE_NAME = '.manifest.json';
+
+/**
+ * マニフェストのエントリ（ドキュメント1件分のメタデータ）
+ */
+export interface ManifestEntry {
+  id: string;
+  file: string; // ファイル名（docs または .archive 直下）
+  hash: string; // ファイル内容のSHA-256ハッシュ
+  created: string; // ISO 8601形式
+  updated: string; // ISO 8601形式
+  tags: string[];
+  archived: boolean;
+  mtime_ms: number; // ドリフト検出用の更新時刻
+  size: number; // ドリフト検出用のファイルサイズ
+}
+
+/**
+ * 永続化されるマニフェストの構造
+ */
+interface ManifestData {
+  version: number;
+  entries: Record<string, ManifestEntry>;
+}
+
+/**
+ * マニフェストのフィルタ条件
+ */
+export interface ManifestQuery {
+  archived?: boolean;
+  tags?: string[];
+}
+
+/**
+ * ドキュメントマニフェストクラス
+ * ID → ファイル名の対応とメタデータの一部を .claude/docs/.manifest.json に保持し、
+ * ドキュメントの検索や取得でディレクトリ全体を読み込まずに済むようにする
+ */
+export class DocumentManifest {
+  private docsDir: string;
+  private archiveDir: string;
+  private manifestPath: string;
+  private entries: Map<string, ManifestEntry> = new Map();
+  private loadedMtimeMs: number | null = null;
+  private logger: Logger;
+
+  constructor(docsDir: string, archiveDir: string) {
+    this.docsDir = docsDir;
+    this.archiveDir = archiveDir;
+    this.manifestPath = path.join(docsDir, MANIFEST_FILE_NAME);
+    this.logger = new Logger('DocumentManifest');
+  }
+
+  /**
+   * マニフェストを読み込み、ファイルシステムとの差分を反映
+   * マニフェストが存在しない・壊れている場合は再構築する
+   */
+  async load(): Promise<void> {
+    if (!(await this.readManifest())) {
+      await this.rebuild();
+      return;
+    }
+
+    await this.refresh();
+  }
+
+  /**
+   * IDからエントリを取得
+   */
+  async get(id: string): Promise<ManifestEntry | undefined> {
+    await this.reloadIfChanged();
+    return this.entries.get(id);
+  }
+
+  /**
+   * 条件に一致するエントリを取得（本文を読み込まずにメタデータだけで絞り込む）
+   */
+  async query(query: ManifestQuery = {}): Promise<ManifestEntry[]> {
+    await this.reloadIfChanged();
+
+    return Array.from(this.entries.values()).filter((entry) => {
+      if (query.archived !== undefined && entry.archived !== query.archived) {
+        return false;
+      }
+      if (query.tags && query.tags.length > 0) {
+        return query.tags.some((tag) => entry.tags.includes(tag));
+      }
+      return true;
+    });
+  }
+
+  /**
+   * エントリのファイルパスを取得
+   */
+  resolvePath(entry: ManifestEntry): string {
+    return path.join(entry.archived ? this.archiveDir : this.docsDir, entry.file);
+  }
+
+  /**
+   * 書き込んだドキュメントをマニフェストに反映
+   * @param metadata - 書き込んだメタデータ
+   * @param filePath - 書き込み先のファイルパス
+   * @param markdown - 書き込んだファイル内容（省略時はファイルから読み込む）
+   */
+  async upsert(metadata: DocumentMetadata, filePath: string, markdown?: string): Promise<void> {
+    await this.reloadIfChanged();
+
+    const content = markdown ?? (await fs.readFile(filePath, 'utf-8'));
+    const stat = await fs.stat(filePath);
+    this.entries.set(metadata.id, this.createEntry(metadata, filePath, content, stat));
+    await this.persist();
+  }
+
+  /**
+   * 削除したドキュメントをマニフェストから外す
+   */
+  async remove(id: string): Promise<void> {
+    await this.reloadIfChanged();
+
+    if (this.entries.delete(id)) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * ファイルシステムとマニフェストのずれ（ドリフト）を検出して反映
+   * mtimeとサイズが変わったファイルのみ読み込み直し、消えたファイルのエントリは削除する
+   * @returns ドリフトがあった場合true
+   */
+  async refresh(): Promise<boolean> {
+    await this.reloadIfChanged();
+
+    const byPath = new Map<string, ManifestEntry>();
+    for (const entry of this.entries.values()) {
+      byPath.set(this.resolvePath(entry), entry);
+    }
+
+    const seen = new Set<string>();
+    let drift = false;
+
+    for (const filePath of await this.listDocumentFiles()) {
+      const entry = byPath.get(filePath);
+
+      try {
+        const stat = await fs.stat(filePath);
+        if (entry && entry.mtime_ms === stat.mtimeMs && entry.size === stat.size) {
+          seen.add(entry.id);
+          continue;
+        }
+
+        const markdown = await fs.readFile(filePath, 'utf-8');
+        const metadata = matter(markdown).data as DocumentMetadata;
+        if (!metadata.id) continue;
+
+        // IDが重複している場合は先に見つかったファイルを優先する
+        if (seen.has(metadata.id)) {
+          this.logger.warn('Duplicate document id, skipping in manifest', {
+            id: metadata.id,
+            filePath,
+          });
+          continue;
+        }
+
+        // 手動でIDが書き換えられた場合は古いエントリを外す
+        if (entry && entry.id !== metadata.id) {
+          this.entries.delete(entry.id);
+        }
+
+        this.entries.set(metadata.id, this.createEntry(metadata, filePath, markdown, stat));
+        seen.add(metadata.id);
+        drift = true;
+      } catch (error) {
+        this.logger.warn('Failed to index document for manifest', { filePath, error });
+      }
+    }
+
+    for (const id of Array.from(this.entries.keys())) {
+      if (!seen.has(id)) {
+        this.entries.delete(id);
+        drift = true;
+      }
+    }
+
+    if (drift) {
+      this.logger.info('Manifest drift detected, updated entries', { entries: this.entries.size });
+      await this.persist();
+    }
+
+    return drift;
+  }
+
+  /**
+   * すべてのドキュメントを読み込んでマニフェストを再構築
+   */
+  async rebuild(): Promise<void> {
+    this.entries.clear();
+
+    for (const filePath of await this.listDocumentFiles()) {
+      try {
+        const markdown = await fs.readFile(filePath, 'utf-8');
+        const metadata = matter(markdown).data as DocumentMetadata;
+        if (!metadata.id || this.entries.has(metadata.id)) continue;
+
+        const stat = await fs.stat(filePath);
+        this.entries.set(metadata.id, this.createEntry(metadata, filePath, markdown, stat));
+      } catch (error) {
+        this.logger.warn('Failed to index document for manifest', { filePath, error });
+      }
+    }
+
+    await this.persist();
+    this.logger.info('Manifest rebuilt', { entries: this.entries.size });
+  }
+
+  /**
+   * マニフェストのエントリを作成
+   */
+  private createEntry(
+    metadata: DocumentMetadata,
+    filePath: string,
+    markdown: string,
+    stat: { mtimeMs: number; size: number }
+  ): ManifestEntry {
+    return {
+      id: metadata.id,
+      file: path.basename(filePath),
+      hash: crypto.createHash('sha256').update(markdown).digest('hex'),
+      created: metadata.created,
+      updated: metadata.updated,
+      tags: metadata.tags ?? [],
+      archived: path.dirname(filePath) === this.archiveDir,
+      mtime_ms: stat.mtimeMs,
+      size: stat.size,
+    };
+  }
+
+  /**
+   * アクティブ・アーカイブのドキュメントファイルを列挙
+   */
+  private async listDocumentFiles(): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const dir of [this.docsDir, this.archiveDir]) {
+      try {
+        for (const file of await fs.readdir(dir)) {
+          if (file.startsWith('.') || !file.endsWith('.md')) continue;
+          files.push(path.join(dir, file));
+        }
+      } catch (error) {
+        this.logger.debug('Failed to read document directory', { dir, error });
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * マニフェストファイルを読み込む
+   * @returns 読み込めた場合true
+   */
+  private async readManifest(): Promise<boolean> {
+    try {
+      const [content, stat] = await Promise.all([
+        fs.readFile(this.manifestPath, 'utf-8'),
+        fs.stat(this.manifestPath),
+      ]);
+      const data = JSON.parse(content) as ManifestData;
+
+      if (data.version !== MANIFEST_VERSION || typeof data.entries !== 'object') {
+        this.logger.warn('Unsupported manifest version, rebuilding', { version: data.version });
+        return false;
+      }
+
+      this.entries = new Map(Object.entries(data.entries));
+      this.loadedMtimeMs = stat.mtimeMs;
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Failed to read manifest, rebuilding', { error });
+      }
+      return false;
+    }
+  }
+
+  /**
+   * 他のプロセスがマニフェストを書き換えた場合は読み込み直す
+   */
+  private async reloadIfChanged(): Promise<void> {
+    try {
+      const stat = await fs.stat(this.manifestPath);
+      if (stat.mtimeMs !== this.loadedMtimeMs) {
+        await this.readManifest();
+      }
+    } catch {
+      // マニフェストが存在しない場合はメモリ上のエントリを使い、次の書き込みで作成する
+    }
+  }
+
+  /**
+   * マニフェストをアトミックに書き込む
+   */
+  private async persist(): Promise<void> {
+    const data: ManifestData = {
+      version: MANIFEST_VERSION,
+      entries: Object.fromEntries(this.entries),
+    };
+
+    await writeFileAtomic(this.manifestPath, JSON.stringify(data, null, 2));
+    this.loadedMtimeMs = (await fs.stat(this.manifestPath)).mtimeMs;
+  }
+}
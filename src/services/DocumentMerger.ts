@@ -4,9 +4,11 @@
  */
 
 import { DocumentManager } from './DocumentManager.js';
-import { VectorStore } from './VectorStore.js';
+import { VectorStore, EmbeddingsUnavailableError } from './VectorStore.js';
 import { Summarizer } from './Summarizer.js';
-import type { Document } from '../models/Document.js';
+import type { SummaryResult } from './Summarizer.js';
+import { OperationJournal, type JournalEntry } from './OperationJournal.js';
+import type { ChangeContext, Document } from '../models/Document.js';
 import { Logger } from '../utils/logger.js';
 
 interface DocumentGroup {
@@ -15,30 +17,50 @@ interface DocumentGroup {
   reason: 'vector_similarity' | 'file_overlap';
 }
 
+/**
+ * ジャーナルからのマージ復旧結果
+ */
+export interface MergeRecoveryResult {
+  journalId: string;
+  sourceIds: string[];
+  mergedId?: string;
+  outcome: 'replayed' | 'rolled_back';
+}
+
 export class DocumentMerger {
   private documentManager: DocumentManager;
   private vectorStore: VectorStore;
   private summarizer: Summarizer;
+  private journal: OperationJournal;
   private logger: Logger;
 
-  constructor(documentManager: DocumentManager, vectorStore: VectorStore, summarizer: Summarizer) {
+  constructor(
+    documentManager: DocumentManager,
+    vectorStore: VectorStore,
+    summarizer: Summarizer,
+    journal?: OperationJournal
+  ) {
     this.documentManager = documentManager;
     this.vectorStore = vectorStore;
     this.summarizer = summarizer;
+    this.journal = journal ?? new OperationJournal(documentManager.getDocsDir());
     this.logger = new Logger('DocumentMerger');
   }
 
   /**
    * 類似ドキュメントを検出
+   * 固定・保護されたドキュメントは統合の対象にしない
    * @param threshold - 類似度の閾値（0.0〜1.0）
    * @returns 類似ドキュメントのグループ配列
    */
   async detectSimilarDocuments(threshold: number = 0.85): Promise<DocumentGroup[]> {
-    const allDocs = await this.getAllActiveDocuments();
+    const activeDocs = await this.getAllActiveDocuments();
+    const allDocs = activeDocs.filter((doc) => !this.documentManager.isProtected(doc));
     const groups: DocumentGroup[] = [];
 
     this.logger.info('Detecting similar documents', {
       totalDocs: allDocs.length,
+      protectedDocs: activeDocs.length - allDocs.length,
       threshold,
     });
 
@@ -90,9 +112,15 @@ export class DocumentMerger {
   /**
    * ドキュメントを統合
    * @param docs - 統合するドキュメント配列
+   * @param onCreated - 統合ドキュメントのファイルを作成した直後に呼ばれる（ジャーナルへの記録用）
+   * @param context - change_log に記録する実行者・理由
    * @returns 統合されたドキュメント
    */
-  async mergeDocuments(docs: Document[]): Promise<Document> {
+  async mergeDocuments(
+    docs: Document[],
+    onCreated?: (docId: string) => Promise<void>,
+    context: ChangeContext = {}
+  ): Promise<Document> {
     if (docs.length < 2) {
       throw new Error('At least 2 documents are required for merging');
     }
@@ -107,22 +135,32 @@ export class DocumentMerger {
       .map((d, i) => `### ドキュメント${i + 1}: ${d.metadata.summary}\n\n${d.content}`)
       .join('\n\n---\n\n');
 
-    // 2. AI統合
-    await this.unifyWithAI(combined, docs.length);
+    // 2. AI統合（要約がフォールバックした場合はソースごとのセクションで構造的に連結）
+    const unified = await this.unifyWithAI(combined, docs.length);
+    const mergeMethod = unified.provider === 'ollama' ? 'ai_unified' : 'structured_concat';
+    const content =
+      mergeMethod === 'ai_unified' ? unified.text : this.createStructuredContent(docs);
 
     // 3. メタデータ生成
     const metadata = this.createMergedMetadata(docs);
 
     // 4. 統合ドキュメント作成
-    const merged = await this.documentManager.createDocument({
-      files: metadata.related_files,
-      prompt: `統合: ${docs.map((d) => d.metadata.summary).join(', ')}`,
-      summary: metadata.summary,
-    });
+    const sourceIds = docs.map((d) => d.metadata.id);
+    const merged = await this.documentManager.createDocument(
+      {
+        files: metadata.related_files,
+        prompt: `統合: ${docs.map((d) => d.metadata.summary).join(', ')}`,
+        summary: metadata.summary,
+        content,
+      },
+      context
+    );
+    await onCreated?.(merged.metadata.id);
 
     // メタデータ更新（merged_from等を追加）
-    merged.metadata.merged_from = docs.map((d) => d.metadata.id);
-    merged.metadata.merge_method = 'ai_unified';
+    merged.metadata.tags = metadata.tags;
+    merged.metadata.merged_from = sourceIds;
+    merged.metadata.merge_method = mergeMethod;
     merged.metadata.merge_timestamp = new Date().toISOString();
     merged.metadata.is_merged = true;
     merged.metadata.author = Array.from(
@@ -133,22 +171,28 @@ export class DocumentMerger {
       )
     );
 
-    await this.documentManager.updateDocument(merged.metadata.id, merged.metadata);
+    const updated = await this.documentManager.updateDocument(merged.metadata.id, merged.metadata, {
+      ...context,
+      action: 'merged',
+      details: { ...context.details, merged_from: sourceIds, merge_method: mergeMethod },
+    });
 
     this.logger.info('Documents merged', {
       mergedId: merged.metadata.id,
-      originalIds: merged.metadata.merged_from,
+      originalIds: sourceIds,
+      mergeMethod,
     });
 
-    return merged;
+    return updated;
   }
 
   /**
    * 統合処理を実行
    * @param threshold - 類似度の閾値
+   * @param context - change_log に記録する実行者・理由
    * @returns 統合結果のレポート
    */
-  async executeMerge(threshold: number = 0.85): Promise<string> {
+  async executeMerge(threshold: number = 0.85, context: ChangeContext = {}): Promise<string> {
     this.logger.info('Starting merge execution', { threshold });
 
     // 1. 類似ドキュメント検出
@@ -164,21 +208,68 @@ export class DocumentMerger {
     let totalMerged = 0;
 
     for (const group of groups) {
-      const merged = await this.mergeDocuments(group.documents);
+      // 統合からアーカイブまでを他のプロセスと排他して実行
+      const merged = await this.documentManager.withLock('merge', async () => {
+        // 検出後に他のプロセスがアーカイブ・削除・固定したドキュメントを含むグループは統合しない
+        for (const doc of group.documents) {
+          const current = await this.documentManager.getDocument(doc.metadata.id);
+          if (!current) {
+            this.logger.warn('Merge source no longer active, skipping group', {
+              id: doc.metadata.id,
+            });
+            return null;
+          }
+          if (this.documentManager.isProtected(current)) {
+            this.logger.warn('Merge source is pinned or protected, skipping group', {
+              id: doc.metadata.id,
+            });
+            return null;
+          }
+        }
 
-      // 3. 元のドキュメントをアーカイブ
-      for (const doc of group.documents) {
-        await this.documentManager.archiveDocument(doc.metadata.id);
-        await this.vectorStore.deleteDocument(doc.metadata.id);
-      }
+        // 各ステップをジャーナルに記録し、途中で失敗した場合は再実行またはロールバックする
+        const entry = await this.journal.beginMerge(group.documents.map((d) => d.metadata.id));
+
+        try {
+          const mergedDoc = await this.mergeDocuments(
+            group.documents,
+            (docId) => this.journal.record(entry, { merged_id: docId }),
+            context
+          );
+          await this.journal.completeStep(entry, 'create_merged');
+
+          // 3. 元のドキュメントをアーカイブ
+          await this.archiveSources(entry, context);
+
+          // 4. 統合ドキュメントをインデックスに追加
+          await this.updateMergeIndex(entry, mergedDoc);
+
+          await this.journal.finish(entry, 'completed');
+          return mergedDoc;
+        } catch (error) {
+          this.logger.error('Merge failed, recovering from journal', {
+            journalId: entry.id,
+            error,
+          });
+          const recovered = await this.recoverEntry(entry).catch((recoveryError: unknown) => {
+            this.logger.error('Merge recovery failed, will retry on startup', {
+              journalId: entry.id,
+              error: recoveryError,
+            });
+            return null;
+          });
 
-      // 4. 統合ドキュメントをインデックスに追加
-      await this.vectorStore.addDocument({
-        id: merged.metadata.id,
-        text: merged.content,
-        metadata: merged.metadata as unknown as Record<string, unknown>,
+          // 統合ドキュメントの作成が完了していれば再実行で統合は完了しているため、結果として扱う
+          if (recovered?.outcome === 'replayed' && recovered.mergedId) {
+            const replayed = await this.documentManager.getDocument(recovered.mergedId);
+            if (replayed) return replayed;
+          }
+          throw error;
+        }
       });
 
+      if (!merged) continue;
+
       results.push(
         `統合グループ ${results.length + 1}:\n` +
           `- 統合前: ${group.documents.map((d) => d.metadata.summary).join(', ')}\n` +
@@ -191,7 +282,7 @@ export class DocumentMerger {
 
     const report =
       results.join('\n\n') +
-      `\n\n合計: ${totalMerged}件のドキュメントを${groups.length}件に統合しました。`;
+      `\n\n合計: ${totalMerged}件のドキュメントを${results.length}件に統合しました。`;
 
     this.logger.info('Merge execution completed', {
       groupsProcessed: groups.length,
@@ -201,6 +292,121 @@ export class DocumentMerger {
     return report;
   }
 
+  /**
+   * ジャーナルに残っている未完了のマージを復旧
+   * 統合ドキュメントの作成が完了していれば残りのステップを再実行し、
+   * 完了していなければ作成途中の統合ドキュメントを削除してロールバックする
+   * @returns 復旧したマージの結果
+   */
+  async recoverIncompleteMerges(): Promise<MergeRecoveryResult[]> {
+    // マージ中はロックを保持し続けるため、ロック取得後に残っているエントリは中断されたもの
+    return await this.documentManager.withLock('recover_merge', async () => {
+      const results: MergeRecoveryResult[] = [];
+
+      for (const entry of await this.journal.listIncomplete()) {
+        results.push(await this.recoverEntry(entry));
+      }
+
+      return results;
+    });
+  }
+
+  /**
+   * ジャーナルエントリの状態に応じて再実行またはロールバック（ロック中に呼び出す）
+   */
+  private async recoverEntry(entry: JournalEntry): Promise<MergeRecoveryResult> {
+    const merged = entry.merged_id ? await this.documentManager.getDocument(entry.merged_id) : null;
+    const result: MergeRecoveryResult = {
+      journalId: entry.id,
+      sourceIds: entry.source_ids,
+      ...(entry.merged_id && { mergedId: entry.merged_id }),
+      outcome: 'replayed',
+    };
+
+    if (merged && this.journal.isStepDone(entry, 'create_merged')) {
+      // 再実行: 残っている統合元をアーカイブし、インデックスを更新
+      await this.archiveSources(entry, {
+        actor: 'system',
+        reason: 'Interrupted merge replayed',
+      });
+      await this.updateMergeIndex(entry, merged);
+
+      await this.journal.finish(entry, 'replayed');
+    } else {
+      // ロールバック: 作成途中の統合ドキュメントを削除し、アーカイブ済みの統合元を復元
+      if (merged) {
+        await this.documentManager.deleteDocument(merged.metadata.id);
+      }
+      if (entry.merged_id) {
+        await this.vectorStore.deleteDocument(entry.merged_id).catch(() => undefined);
+      }
+      for (const id of entry.archived_ids) {
+        if (await this.documentManager.getArchivedDocument(id)) {
+          await this.documentManager.restoreDocument(id, {
+            actor: 'system',
+            reason: 'Interrupted merge rolled back',
+            details: { journal_id: entry.id },
+          });
+        }
+      }
+
+      result.outcome = 'rolled_back';
+      await this.journal.finish(entry, 'rolled_back');
+    }
+
+    this.logger.info('Incomplete merge recovered', { ...result });
+    return result;
+  }
+
+  /**
+   * 統合元のドキュメントをアーカイブし、1件ごとにジャーナルに記録
+   */
+  private async archiveSources(entry: JournalEntry, context: ChangeContext): Promise<void> {
+    for (const id of entry.source_ids) {
+      if (entry.archived_ids.includes(id)) continue;
+
+      if (await this.documentManager.getDocument(id)) {
+        await this.documentManager.archiveDocument(id, {
+          ...context,
+          details: { ...context.details, merged_into: entry.merged_id },
+        });
+      }
+      await this.journal.record(entry, { archived_ids: [...entry.archived_ids, id] });
+    }
+
+    await this.journal.completeStep(entry, 'archive_sources');
+  }
+
+  /**
+   * 統合元をベクトルインデックスから外し、統合ドキュメントを追加
+   * ベクトルストアが使えない場合（未初期化・埋め込みモデルなし）は更新せずに続行する
+   * （ベクトルインデックスは起動時の読み込みで未登録のドキュメントが追加される）
+   */
+  private async updateMergeIndex(entry: JournalEntry, merged: Document): Promise<void> {
+    if (this.vectorStore.isInitialized()) {
+      try {
+        for (const id of entry.source_ids) {
+          await this.vectorStore.deleteDocument(id);
+        }
+
+        await this.vectorStore.addDocument(VectorStore.toDocumentVector(merged));
+      } catch (error) {
+        if (error instanceof EmbeddingsUnavailableError) {
+          this.logger.info('Embeddings unavailable, skipping vector index update for merge', {
+            journalId: entry.id,
+          });
+        } else {
+          this.logger.warn('Failed to update vector index for merge', {
+            journalId: entry.id,
+            error,
+          });
+        }
+      }
+    }
+
+    await this.journal.completeStep(entry, 'update_index');
+  }
+
   /**
    * ベクトル類似度を計算
    * @param docA - ドキュメントA
@@ -246,9 +452,9 @@ export class DocumentMerger {
    * AIで統合
    * @param combined - 結合されたドキュメント内容
    * @param docCount - ドキュメント数
-   * @returns 統合された内容
+   * @returns 統合された内容と使用された要約プロバイダー
    */
-  private async unifyWithAI(combined: string, docCount: number): Promise<string> {
+  private async unifyWithAI(combined: string, docCount: number): Promise<SummaryResult> {
     const prompt = `
 以下は同じトピックに関する${docCount}つの実装ドキュメントです。
 これらを1つの統合ドキュメントにまとめてください。
@@ -262,7 +468,56 @@ export class DocumentMerger {
 ${combined}
 `;
 
-    return await this.summarizer.summarize(prompt, 2000);
+    return await this.summarizer.summarizeWithProvider(prompt, 2000);
+  }
+
+  /**
+   * ソースごとのセクションで構造的に連結した本文を作成
+   * AI統合が利用できない場合に使用
+   * @param docs - ドキュメント配列
+   * @returns 統合ドキュメントの本文
+   */
+  private createStructuredContent(docs: Document[]): string {
+    const sorted = [...docs].sort(
+      (a, b) => new Date(a.metadata.created).getTime() - new Date(b.metadata.created).getTime()
+    );
+
+    let content = `## 統合概要\n\n`;
+    content += `以下の${sorted.length}件の実装ドキュメントを時系列順に統合しました。\n\n`;
+    sorted.forEach((d) => {
+      content += `- ${d.metadata.summary} (${d.metadata.created.split('T')[0]}, ID: ${d.metadata.id})\n`;
+    });
+
+    sorted.forEach((d, i) => {
+      content += `\n## ソース${i + 1}: ${d.metadata.summary}\n\n`;
+      content += `- ID: ${d.metadata.id}\n`;
+      content += `- 作成日: ${d.metadata.created}\n`;
+      content += `- ファイル: ${d.metadata.related_files.join(', ')}\n\n`;
+      content += `${this.demoteHeadings(d.content.trim())}\n`;
+    });
+
+    return content;
+  }
+
+  /**
+   * Markdown見出しを1段下げる（ソースセクション内に収めるため）
+   * コードブロック内の行は変更しない
+   * @param content - Markdown本文
+   * @returns 見出しを下げた本文
+   */
+  private demoteHeadings(content: string): string {
+    let inCodeBlock = false;
+
+    return content
+      .split('\n')
+      .map((line) => {
+        if (line.startsWith('```')) {
+          inCodeBlock = !inCodeBlock;
+          return line;
+        }
+        return !inCodeBlock && /^#{1,5} /.test(line) ? `#${line}` : line;
+      })
+      .join('\n');
   }
 
   /**
@@ -1,12 +1,42 @@
 import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
 import { Logger } from '../utils/logger.js';
 
-interface SyncResult {
+/**
+ * 同期結果（ファイルパスの一覧）
+ */
+export interface SyncResult {
   added: string[];
   modified: string[];
   deleted: string[];
 }
 
+/**
+ * 監視オプション
+ */
+export interface FileWatcherOptions {
+  /** 定期同期の間隔（秒） */
+  syncIntervalSeconds: number;
+  /** ファイルシステムイベントをまとめる待ち時間（ミリ秒） */
+  debounceMs?: number;
+}
+
+/**
+ * 変更検出用のファイル状態
+ */
+interface FileSnapshot {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+}
+
+/**
+ * デフォルトのデバウンス時間（git pullなどで連続するイベントをまとめる）
+ */
+const DEFAULT_DEBOUNCE_MS = 500;
+
 /**
  * ファイル監視クラス
  * ファイルシステムの変更を監視し、メモリキャッシュと同期
@@ -15,6 +45,13 @@ export class FileWatcher {
   private watcher: fs.FSWatcher | null = null;
   private logger: Logger;
   private syncInterval: NodeJS.Timeout | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private debounceMs = DEFAULT_DEBOUNCE_MS;
+  private watchPath: string | null = null;
+  private snapshots: Map<string, FileSnapshot> = new Map();
+  private onChange: ((result: SyncResult) => Promise<void>) | null = null;
+  private syncing = false;
+  private pendingSync = false;
 
   constructor() {
     this.logger = new Logger('FileWatcher');
@@ -22,60 +59,179 @@ export class FileWatcher {
 
   /**
    * ディレクトリの監視を開始
-   * @param path - 監視するディレクトリパス
-   * @param callback - ファイル変更のコールバック関数
+   * 開始時点のファイル状態を基準とし、以降の差分のみを通知する
+   * @param dirPath - 監視するディレクトリパス
+   * @param options - 監視オプション
+   * @param onChange - 差分を検出した時のコールバック関数
    */
-  startWatching(path: string, callback: (event: string, filename: string) => void): void {
-    // nullファイル名を処理するためコールバックをラップ
-    const watchCallback = (event: string, filename: string | null) => {
-      if (filename !== null) {
-        callback(event, filename);
-      }
-    };
+  async startWatching(
+    dirPath: string,
+    options: FileWatcherOptions,
+    onChange: (result: SyncResult) => Promise<void>
+  ): Promise<void> {
+    this.stopWatching();
 
-    this.watcher = fs.watch(path, { recursive: false }, watchCallback);
+    this.watchPath = dirPath;
+    this.onChange = onChange;
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
 
-    // 定期同期を開始（60秒ごと）
-    this.syncInterval = setInterval(() => void this.syncCheck(), 60000);
+    // 基準となるファイル状態を取得（通知はしない）
+    await this.syncWithFileSystem();
 
-    this.logger.info('File watching started', { path });
+    try {
+      this.watcher = fs.watch(dirPath, { recursive: false }, (_event, filename) => {
+        if (filename !== null && this.isDocumentFile(filename)) {
+          this.scheduleSync();
+        }
+      });
+      this.watcher.on('error', (error) => {
+        this.logger.warn('File watcher error, falling back to periodic sync', { error });
+      });
+    } catch (error) {
+      this.logger.warn('Failed to watch directory, falling back to periodic sync', { error });
+    }
+
+    // 取りこぼしたイベントを補うため定期同期も行う
+    this.syncInterval = setInterval(
+      () => void this.syncCheck(),
+      options.syncIntervalSeconds * 1000
+    );
+
+    this.logger.info('File watching started', {
+      path: dirPath,
+      files: this.snapshots.size,
+      syncIntervalSeconds: options.syncIntervalSeconds,
+    });
+  }
+
+  /**
+   * デバウンスして同期チェックを予約
+   */
+  private scheduleSync(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      void this.syncCheck();
+    }, this.debounceMs);
   }
 
   /**
    * 定期的な同期チェックを実行
+   * 実行中に次の同期が要求された場合は、完了後にもう一度実行する
    */
-  private syncCheck(): void {
-    // ファイルシステムとメモリを比較
-    const result = this.syncWithFileSystem();
-
-    if (result.added.length > 0 || result.modified.length > 0 || result.deleted.length > 0) {
-      this.logger.info('Sync check completed', {
-        added: result.added,
-        modified: result.modified,
-        deleted: result.deleted,
-      });
+  private async syncCheck(): Promise<void> {
+    if (this.syncing) {
+      this.pendingSync = true;
+      return;
+    }
+
+    this.syncing = true;
+
+    try {
+      do {
+        this.pendingSync = false;
+
+        // ファイルシステムとメモリを比較
+        const result = await this.syncWithFileSystem();
+
+        if (result.added.length > 0 || result.modified.length > 0 || result.deleted.length > 0) {
+          this.logger.info('Sync check completed', {
+            added: result.added,
+            modified: result.modified,
+            deleted: result.deleted,
+          });
+
+          if (this.onChange) {
+            await this.onChange(result);
+          }
+        }
+      } while (this.pendingSync);
+    } catch (error) {
+      this.logger.error('Sync check failed', { error });
+    } finally {
+      this.syncing = false;
     }
   }
 
   /**
    * ファイルシステムと同期
+   * mtimeとサイズが変わったファイルのみハッシュを計算し、内容が変わったものを変更とみなす
    * @returns 追加、変更、削除されたファイルを含む同期結果
    */
-  syncWithFileSystem(): SyncResult {
+  async syncWithFileSystem(): Promise<SyncResult> {
     const result: SyncResult = {
       added: [],
       modified: [],
       deleted: [],
     };
 
-    // ファイルシステムとメモリを比較
-    // 差分がある場合はメモリを更新
-    // これはプレースホルダー実装
-    // 実際の実装ではDocumentManagerのキャッシュと比較
+    if (!this.watchPath) return result;
+
+    let files: string[];
+    try {
+      files = (await fsp.readdir(this.watchPath)).filter((file) => this.isDocumentFile(file));
+    } catch (error) {
+      this.logger.warn('Failed to read watched directory', { path: this.watchPath, error });
+      return result;
+    }
+
+    const seen = new Set<string>();
+
+    for (const file of files) {
+      const filePath = path.join(this.watchPath, file);
+
+      try {
+        const stat = await fsp.stat(filePath);
+        if (!stat.isFile()) continue;
+
+        seen.add(filePath);
+        const previous = this.snapshots.get(filePath);
+
+        if (previous && previous.mtimeMs === stat.mtimeMs && previous.size === stat.size) {
+          continue;
+        }
+
+        const hash = this.hashContent(await fsp.readFile(filePath));
+        this.snapshots.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size, hash });
+
+        if (!previous) {
+          result.added.push(filePath);
+        } else if (previous.hash !== hash) {
+          result.modified.push(filePath);
+        }
+      } catch (error) {
+        // 読み取り中に削除された場合などは次回の同期で判定する
+        this.logger.debug('Failed to stat watched file', { filePath, error });
+      }
+    }
+
+    for (const filePath of this.snapshots.keys()) {
+      if (!seen.has(filePath)) {
+        this.snapshots.delete(filePath);
+        result.deleted.push(filePath);
+      }
+    }
 
     return result;
   }
 
+  /**
+   * 監視対象のドキュメントファイルか判定（隠しファイル・一時ファイルは除外）
+   */
+  private isDocumentFile(filename: string): boolean {
+    return !filename.startsWith('.') && filename.endsWith('.md');
+  }
+
+  /**
+   * ファイル内容のハッシュを計算
+   */
+  private hashContent(content: Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
   /**
    * ディレクトリの監視を停止
    */
@@ -90,6 +246,17 @@ export class FileWatcher {
       this.syncInterval = null;
     }
 
-    this.logger.info('File watching stopped');
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+
+    if (this.watchPath) {
+      this.logger.info('File watching stopped');
+    }
+
+    this.watchPath = null;
+    this.snapshots.clear();
+    this.onChange = null;
   }
 }
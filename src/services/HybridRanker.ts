@@ -0,0 +1,122 @@
+/**
+ * ハイブリッドランキングサービス
+ * BM25スコアとベクトル類似度を重み付きで合成し、スコアの内訳を提供
+ */
+
+import { ConfigManager } from './ConfigManager.js';
+import type { SearchResult } from './VectorStore.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * ハイブリッドスコアの内訳
+ */
+export interface HybridScoreBreakdown {
+  /** BM25の生スコア */
+  bm25Raw: number;
+  /** 最大値で正規化したBM25スコア（0.0-1.0） */
+  bm25: number;
+  /** ベクトル類似度（セマンティック検索が利用できない場合はnull） */
+  vector: number | null;
+  /** 適用されたBM25の重み */
+  bm25Weight: number;
+  /** 適用されたベクトルの重み */
+  vectorWeight: number;
+  /** 固定されたドキュメントに加算したスコア */
+  pinnedBoost: number;
+}
+
+/**
+ * ハイブリッドランキングの結果
+ */
+export interface HybridSearchResult {
+  id: string;
+  score: number;
+  breakdown: HybridScoreBreakdown;
+}
+
+/**
+ * BM25とベクトル検索の結果を合成するランカー
+ */
+export class HybridRanker {
+  private config: ConfigManager;
+  private logger: Logger;
+
+  constructor() {
+    this.config = ConfigManager.getInstance();
+    this.logger = new Logger('HybridRanker');
+  }
+
+  /**
+   * BM25スコアとベクトル検索結果を合成してランキング
+   * ベクトル検索結果がnull（利用不可）の場合はBM25のみでランキングする
+   * 固定されたドキュメントはいずれかの検索に該当した場合のみ search.pinnedBoost を加算する
+   *
+   * @param bm25Scores - ドキュメントIDとBM25生スコアのマップ
+   * @param vectorResults - 閾値を満たしたベクトル検索結果
+   * @param maxResults - 最大結果数
+   * @param pinnedIds - 固定されたドキュメントのID
+   * @returns 合成スコアの高い順にソートされた結果
+   */
+  rank(
+    bm25Scores: Map<string, number>,
+    vectorResults: SearchResult[] | null,
+    maxResults: number,
+    pinnedIds: ReadonlySet<string> = new Set()
+  ): HybridSearchResult[] {
+    const { bm25Weight, vectorWeight } = this.resolveWeights(vectorResults !== null);
+    const boost = this.config.getNested('search', 'pinnedBoost');
+
+    const maxBm25 = Math.max(0, ...bm25Scores.values());
+    const vectorScores = new Map((vectorResults || []).map((r) => [r.id, r.score]));
+    const candidateIds = new Set([...bm25Scores.keys(), ...vectorScores.keys()]);
+
+    const results: HybridSearchResult[] = [];
+
+    for (const id of candidateIds) {
+      const bm25Raw = bm25Scores.get(id) || 0;
+      const bm25 = maxBm25 > 0 ? bm25Raw / maxBm25 : 0;
+      const vector = vectorResults ? (vectorScores.get(id) ?? 0) : null;
+
+      const matchScore = bm25 * bm25Weight + (vector ?? 0) * vectorWeight;
+      if (matchScore <= 0) continue;
+
+      const pinnedBoost = pinnedIds.has(id) ? boost : 0;
+      results.push({
+        id,
+        score: matchScore + pinnedBoost,
+        breakdown: { bm25Raw, bm25, vector, bm25Weight, vectorWeight, pinnedBoost },
+      });
+    }
+
+    this.logger.debug('Hybrid ranking completed', {
+      candidates: candidateIds.size,
+      bm25Weight,
+      vectorWeight,
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, maxResults);
+  }
+
+  /**
+   * 設定から重みを取得し、合計が1になるよう正規化
+   * @param vectorAvailable - ベクトル検索が利用可能か
+   */
+  private resolveWeights(vectorAvailable: boolean): {
+    bm25Weight: number;
+    vectorWeight: number;
+  } {
+    if (!vectorAvailable) {
+      return { bm25Weight: 1, vectorWeight: 0 };
+    }
+
+    const bm25 = this.config.getNested('search', 'bm25Weight');
+    const vector = this.config.getNested('search', 'vectorWeight');
+    const total = bm25 + vector;
+
+    if (total <= 0) {
+      return { bm25Weight: 0.5, vectorWeight: 0.5 };
+    }
+
+    return { bm25Weight: bm25 / total, vectorWeight: vector / total };
+  }
+}
@@ -3,15 +3,55 @@
  * データ整合性チェックと自動リカバリを実行
  */
 
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import matter from 'gray-matter';
+import { v4 as uuidv4 } from 'uuid';
 import { Logger } from '../utils/logger.js';
-import type { DocumentMetadata } from '../models/Document.js';
+import { createLineDiff } from '../utils/diffUtils.js';
+import { verifyContentHash } from '../utils/contentHash.js';
+import type { Document, DocumentMetadata } from '../models/Document.js';
 import { AuditLogger } from './AuditLogger.js';
+import { ConfigManager } from './ConfigManager.js';
+import { DocumentManager } from './DocumentManager.js';
+import { VectorStore } from './VectorStore.js';
+import { OperationJournal } from './OperationJournal.js';
+import type { MergeRecoveryResult } from './DocumentMerger.js';
+
+/**
+ * 整合性の問題の種類
+ * - unparseable_front_matter: フロントマターのYAMLを解析できない
+ * - invalid_metadata: IDの形式や必須フィールドが不正
+ * - duplicate_id: 複数のファイルが同じIDを持つ
+ * - filename_mismatch: ファイル名とIDが一致しない
+ * - missing_merge_source: merged_fromのIDがアーカイブに存在しない
+ * - incomplete_operation: ジャーナルに未完了の操作が残っている
+ * - orphan_vector: ドキュメントが存在しないベクトル
+ * - missing_from_index: ベクトルインデックスに登録されていないドキュメント
+ * - hand_edited: 記録されたコンテンツハッシュと内容が一致しない（ツールを介さずに編集された）
+ */
+export type IntegrityIssueType =
+  | 'unparseable_front_matter'
+  | 'invalid_metadata'
+  | 'duplicate_id'
+  | 'filename_mismatch'
+  | 'missing_merge_source'
+  | 'incomplete_operation'
+  | 'orphan_vector'
+  | 'missing_from_index'
+  | 'hand_edited';
+
+/**
+ * 深刻度
+ */
+export type IntegritySeverity = 'low' | 'medium' | 'high' | 'critical';
 
 /**
  * チェック中に見つかった整合性の問題を表す
  */
 export interface IntegrityIssue {
-  type: 'invalid_metadata' | 'incomplete_operation' | 'file_memory_mismatch';
+  type: IntegrityIssueType;
+  severity: IntegritySeverity;
   docId?: string;
   operation?: string;
   details: Record<string, unknown>;
@@ -22,7 +62,36 @@ export interface IntegrityIssue {
  */
 export interface IntegrityReport {
   issues: IntegrityIssue[];
-  severity: 'low' | 'medium' | 'high' | 'critical';
+  severity: IntegritySeverity;
+}
+
+/**
+ * 修正で行われるファイル・ベクトルインデックスの変更
+ */
+export interface FileChange {
+  action: 'write' | 'rename' | 'move' | 'delete' | 'index_add' | 'index_delete';
+  path: string; // ファイルパス（インデックスの変更の場合はドキュメントID）
+  to?: string; // rename・moveの移動先
+  diff?: string; // writeの場合の変更前後の行差分
+}
+
+/**
+ * 問題ごとの修正結果
+ */
+export interface FixResult {
+  issue: IntegrityIssue;
+  description: string;
+  changes: FileChange[];
+  applied: boolean; // dryRunの場合と修正に失敗した場合はfalse
+  error?: string;
+}
+
+/**
+ * リカバリオプション
+ */
+export interface RecoveryOptions {
+  /** 書き込みを行わず、修正で行われる変更のみを求める */
+  dryRun?: boolean;
 }
 
 /**
@@ -31,20 +100,99 @@ export interface IntegrityReport {
 export interface RecoveryResult {
   total: number;
   recovered: number;
+  dryRun: boolean;
+  fixes: FixResult[];
+}
+
+/**
+ * 修正内容と、それを適用する処理
+ */
+interface FixPlan {
+  description: string;
+  changes: FileChange[];
+  apply: () => Promise<void>;
+}
+
+/**
+ * 依存性注入用のマージ復旧インターフェース
+ */
+export interface IMergeRecoverer {
+  recoverIncompleteMerges(): Promise<MergeRecoveryResult[]>;
 }
 
+/**
+ * 走査したドキュメントファイル
+ */
+interface ScannedFile {
+  filePath: string;
+  archived: boolean;
+  doc: Document | null; // フロントマターを解析できない場合はnull
+  error?: string;
+}
+
+/**
+ * 問題の種類ごとの深刻度
+ */
+const ISSUE_SEVERITY: Record<IntegrityIssueType, IntegritySeverity> = {
+  unparseable_front_matter: 'high',
+  invalid_metadata: 'critical',
+  duplicate_id: 'high',
+  filename_mismatch: 'low',
+  missing_merge_source: 'medium',
+  incomplete_operation: 'high',
+  orphan_vector: 'low',
+  missing_from_index: 'medium',
+  hand_edited: 'medium',
+};
+
+const SEVERITY_ORDER: IntegritySeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * 復旧の実行順（ファイルの移動やIDの振り直しを先に行う）
+ */
+const RECOVERY_ORDER: IntegrityIssueType[] = [
+  'unparseable_front_matter',
+  'duplicate_id',
+  'invalid_metadata',
+  'filename_mismatch',
+  'missing_merge_source',
+  'incomplete_operation',
+  'orphan_vector',
+  'missing_from_index',
+  'hand_edited',
+];
+
+/**
+ * 自動では修正しない問題の種類（手動編集は accept_manual_edit で確認して受け入れる）
+ */
+const MANUAL_ISSUE_TYPES: IntegrityIssueType[] = ['hand_edited'];
+
 /**
  * データ整合性を管理する整合性チェッカークラス
+ * .claude/docs とアーカイブのファイル、ベクトルインデックス、操作ジャーナルを突き合わせる
  */
 export class IntegrityChecker {
   private logger: Logger;
+  private documentManager: DocumentManager;
   private auditLogger: AuditLogger;
-  private documentCache: Map<string, DocumentMetadata>;
-
-  constructor(auditLogger?: AuditLogger) {
+  private vectorStore: VectorStore | undefined;
+  private journal: OperationJournal;
+  private mergeRecoverer: IMergeRecoverer | undefined;
+  private quarantineDir: string;
+
+  constructor(
+    documentManager: DocumentManager,
+    auditLogger?: AuditLogger,
+    vectorStore?: VectorStore,
+    mergeRecoverer?: IMergeRecoverer
+  ) {
     this.logger = new Logger('IntegrityChecker');
+    this.documentManager = documentManager;
     this.auditLogger = auditLogger || new AuditLogger();
-    this.documentCache = new Map();
+    this.vectorStore = vectorStore;
+    this.journal = new OperationJournal(documentManager.getDocsDir());
+    this.mergeRecoverer = mergeRecoverer;
+    this.quarantineDir = path.join(documentManager.getDocsDir(), '.quarantine');
   }
 
   /**
@@ -64,17 +212,32 @@ export class IntegrityChecker {
     const issues: IntegrityIssue[] = [];
 
     try {
-      // 1. すべてのメタデータを検証
-      const metadataIssues = this.validateAllMetadata();
-      issues.push(...metadataIssues);
+      const files = await this.scanDocumentFiles();
+      const parsed = files.filter((file): file is ScannedFile & { doc: Document } => !!file.doc);
 
-      // 2. 未完了の操作を検索
-      const incompleteOps = this.findIncompleteOperations();
-      issues.push(...incompleteOps);
+      // 1. フロントマターを解析できないファイル
+      issues.push(...this.findUnparseableFiles(files));
+
+      // 2. メタデータを検証
+      if (ConfigManager.getInstance().getNested('integrityChecker', 'validateMetadata')) {
+        issues.push(...this.validateAllMetadata(parsed));
+      }
 
-      // 3. ファイルとメモリの同期をチェック
-      const syncIssues = this.checkFileMemorySync();
-      issues.push(...syncIssues);
+      // 3. IDの重複とファイル名の不一致
+      issues.push(...this.findDuplicateIds(parsed));
+      issues.push(...this.findFileNameMismatches(parsed));
+
+      // 4. 統合元がアーカイブに存在しない統合ドキュメント
+      issues.push(...this.findMissingMergeSources(parsed));
+
+      // 5. 未完了の操作を検索
+      issues.push(...(await this.findIncompleteOperations()));
+
+      // 6. ベクトルインデックスとの同期をチェック
+      issues.push(...(await this.checkVectorIndex(parsed)));
+
+      // 7. ツールを介さずに編集されたドキュメント
+      issues.push(...this.findHandEditedDocuments(parsed));
 
       const severity = this.calculateSeverity(issues);
       this.logger.info('Integrity check completed', {
@@ -103,24 +266,90 @@ export class IntegrityChecker {
   }
 
   /**
-   * ドキュメントキャッシュ内のすべてのメタデータを検証
+   * アクティブ・アーカイブのドキュメントファイルを走査してフロントマターを解析
+   */
+  private async scanDocumentFiles(): Promise<ScannedFile[]> {
+    const files: ScannedFile[] = [];
+    const dirs = [
+      { dir: this.documentManager.getDocsDir(), archived: false },
+      { dir: this.documentManager.getArchiveDir(), archived: true },
+    ];
+
+    for (const { dir, archived } of dirs) {
+      let names: string[];
+      try {
+        names = await fs.readdir(dir);
+      } catch {
+        continue;
+      }
+
+      for (const name of names.sort()) {
+        if (name.startsWith('.') || !name.endsWith('.md')) continue;
+
+        const filePath = path.join(dir, name);
+        try {
+          files.push({ filePath, archived, doc: await this.readDocument(filePath) });
+        } catch (error) {
+          files.push({
+            filePath,
+            archived,
+            doc: null,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * ドキュメントファイルを読み込む
+   * @throws フロントマターを解析できない場合
+   */
+  private async readDocument(filePath: string): Promise<Document> {
+    // オプションを渡してgray-matterのキャッシュを使わない（メタデータを書き換えるため）
+    const parsed = matter(await fs.readFile(filePath, 'utf-8'), {});
+
+    return {
+      metadata: parsed.data as DocumentMetadata,
+      content: parsed.content,
+      file_path: filePath,
+    };
+  }
+
+  /**
+   * フロントマターを解析できないファイルを検出
+   */
+  private findUnparseableFiles(files: ScannedFile[]): IntegrityIssue[] {
+    return files
+      .filter((file) => !file.doc)
+      .map((file) => {
+        this.logger.warn('Unparseable front matter detected', { filePath: file.filePath });
+        return this.createIssue('unparseable_front_matter', {
+          details: { file: file.filePath, error: file.error },
+        });
+      });
+  }
+
+  /**
+   * すべてのドキュメントのメタデータを検証
    * @returns 整合性の問題の配列
    */
-  private validateAllMetadata(): IntegrityIssue[] {
+  private validateAllMetadata(files: Array<ScannedFile & { doc: Document }>): IntegrityIssue[] {
     const issues: IntegrityIssue[] = [];
 
-    for (const [docId, metadata] of this.documentCache.entries()) {
-      if (!this.validateMetadata(metadata)) {
-        issues.push({
-          type: 'invalid_metadata',
-          docId,
-          details: {
-            metadata,
-            reason: 'Metadata validation failed',
-          },
-        });
-        this.logger.warn('Invalid metadata detected', { docId });
-      }
+    for (const { doc } of files) {
+      const problems = this.findMetadataProblems(doc.metadata);
+      if (problems.length === 0) continue;
+
+      issues.push(
+        this.createIssue('invalid_metadata', {
+          ...(doc.metadata.id && { docId: String(doc.metadata.id) }),
+          details: { file: doc.file_path, problems },
+        })
+      );
+      this.logger.warn('Invalid metadata detected', { filePath: doc.file_path, problems });
     }
 
     return issues;
@@ -133,346 +362,1019 @@ export class IntegrityChecker {
    * @returns 有効な場合はtrue、それ以外はfalse
    */
   validateMetadata(metadata: DocumentMetadata): boolean {
+    return this.findMetadataProblems(metadata).length === 0;
+  }
+
+  /**
+   * メタデータの問題点を列挙
+   */
+  private findMetadataProblems(metadata: DocumentMetadata): string[] {
+    const problems: string[] = [];
+
     // UUID v4検証
     // フォーマット: xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx
     // xは任意の16進数、yは8、9、a、またはbのいずれか
-    const uuidV4Regex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-
-    if (!uuidV4Regex.test(metadata.id)) {
-      this.logger.warn('Invalid UUID format', { id: metadata.id });
-      return false;
+    if (!this.isValidId(metadata.id)) {
+      problems.push('invalid id');
     }
 
     // 必須フィールドのチェック
-    const required: Array<keyof DocumentMetadata> = ['id', 'created', 'author', 'summary'];
+    const required: Array<keyof DocumentMetadata> = ['created', 'author', 'summary'];
 
     for (const field of required) {
       const value = metadata[field];
       if (value === undefined || value === null || value === '') {
-        this.logger.warn('Missing required field', { field, docId: metadata.id });
-        return false;
+        problems.push(`missing ${field}`);
       }
     }
 
     // 作成日と更新日のISO 8601日付形式を検証
-    try {
-      const createdDate = new Date(metadata.created);
-      if (isNaN(createdDate.getTime())) {
-        this.logger.warn('Invalid created date format', {
-          created: metadata.created,
-        });
-        return false;
-      }
+    if (metadata.created && isNaN(new Date(metadata.created).getTime())) {
+      problems.push('invalid created date');
+    }
+    if (isNaN(new Date(metadata.updated).getTime())) {
+      problems.push('invalid updated date');
+    }
 
-      const updatedDate = new Date(metadata.updated);
-      if (isNaN(updatedDate.getTime())) {
-        this.logger.warn('Invalid updated date format', {
-          updated: metadata.updated,
-        });
-        return false;
-      }
-    } catch (error) {
-      this.logger.warn('Date validation failed', { error });
-      return false;
+    return problems;
+  }
+
+  /**
+   * UUID v4形式のIDか判定
+   */
+  private isValidId(id: unknown): id is string {
+    const uuidV4Regex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    return typeof id === 'string' && uuidV4Regex.test(id);
+  }
+
+  /**
+   * 複数のファイルが同じIDを持つドキュメントを検出
+   */
+  private findDuplicateIds(files: Array<ScannedFile & { doc: Document }>): IntegrityIssue[] {
+    const byId = new Map<string, string[]>();
+
+    for (const { doc } of files) {
+      if (!this.isValidId(doc.metadata.id)) continue;
+      byId.set(doc.metadata.id, [...(byId.get(doc.metadata.id) ?? []), doc.file_path]);
     }
 
-    return true;
+    return Array.from(byId.entries())
+      .filter(([, paths]) => paths.length > 1)
+      .map(([docId, paths]) => {
+        this.logger.warn('Duplicate document id detected', { docId, files: paths });
+        return this.createIssue('duplicate_id', { docId, details: { files: paths } });
+      });
   }
 
   /**
-   * システム内の未完了操作を検索
-   * @returns 未完了操作の整合性の問題の配列
+   * ファイル名に含まれるIDがフロントマターのIDと一致しないドキュメントを検出
+   * ファイル名の形式: YYYY-MM-DD_UUIDの先頭8文字_summary.md
    */
-  private findIncompleteOperations(): IntegrityIssue[] {
+  private findFileNameMismatches(files: Array<ScannedFile & { doc: Document }>): IntegrityIssue[] {
     const issues: IntegrityIssue[] = [];
 
-    // 未完了のマージ操作をチェック
-    for (const [docId, metadata] of this.documentCache.entries()) {
-      // merge_timestampが存在し、is_mergedがfalseの場合は未完了
-      if (metadata.merge_timestamp && !metadata.is_merged) {
-        issues.push({
-          type: 'incomplete_operation',
-          docId,
-          operation: 'merge',
+    for (const { doc } of files) {
+      if (!this.isValidId(doc.metadata.id)) continue;
+
+      const idPrefix = doc.metadata.id.split('-')[0];
+      if (path.basename(doc.file_path).split('_')[1] === idPrefix) continue;
+
+      issues.push(
+        this.createIssue('filename_mismatch', {
+          docId: doc.metadata.id,
           details: {
-            merge_timestamp: metadata.merge_timestamp,
-            merge_method: metadata.merge_method,
+            file: doc.file_path,
+            expected: this.documentManager.generateFileName(doc.metadata),
           },
-        });
-        this.logger.warn('Incomplete merge operation detected', { docId });
-      }
+        })
+      );
+      this.logger.warn('Filename does not match document id', { filePath: doc.file_path });
+    }
 
-      // merged_fromが存在し、merge_timestampが存在しない場合は不整合
-      if (metadata.merged_from && !metadata.merge_timestamp) {
-        issues.push({
-          type: 'incomplete_operation',
-          docId,
-          operation: 'merge_inconsistency',
+    return issues;
+  }
+
+  /**
+   * merged_fromのIDがアーカイブに存在しない統合ドキュメントを検出
+   * （ロールバック済みでアーカイブされた統合ドキュメントは対象外）
+   */
+  private findMissingMergeSources(files: Array<ScannedFile & { doc: Document }>): IntegrityIssue[] {
+    const archivedIds = new Set(
+      files.filter((file) => file.archived).map((file) => file.doc.metadata.id)
+    );
+    const issues: IntegrityIssue[] = [];
+
+    for (const { doc, archived } of files) {
+      const mergedFrom = doc.metadata.merged_from;
+      if (archived || !Array.isArray(mergedFrom)) continue;
+
+      const missing = mergedFrom.filter((id) => !archivedIds.has(id));
+      if (missing.length === 0) continue;
+
+      issues.push(
+        this.createIssue('missing_merge_source', {
+          docId: doc.metadata.id,
+          details: { file: doc.file_path, missing_ids: missing },
+        })
+      );
+      this.logger.warn('Merge sources missing from archive', { docId: doc.metadata.id, missing });
+    }
+
+    return issues;
+  }
+
+  /**
+   * 操作ジャーナルから未完了の操作を検索
+   * @returns 未完了操作の整合性の問題の配列
+   */
+  private async findIncompleteOperations(): Promise<IntegrityIssue[]> {
+    const issues: IntegrityIssue[] = [];
+
+    for (const entry of await this.journal.listIncomplete()) {
+      issues.push(
+        this.createIssue('incomplete_operation', {
+          ...(entry.merged_id && { docId: entry.merged_id }),
+          operation: entry.operation,
           details: {
-            merged_from: metadata.merged_from,
+            journal_id: entry.id,
+            started: entry.started,
+            source_ids: entry.source_ids,
+            archived_ids: entry.archived_ids,
+            pending_steps: entry.steps.filter((s) => s.status === 'pending').map((s) => s.name),
           },
-        });
-        this.logger.warn('Merge metadata inconsistency detected', { docId });
+        })
+      );
+      this.logger.warn('Incomplete operation detected', {
+        journalId: entry.id,
+        operation: entry.operation,
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * ベクトルインデックスとアクティブなドキュメントの同期をチェック
+   * VectorStoreが初期化されていない場合はスキップ
+   */
+  private async checkVectorIndex(
+    files: Array<ScannedFile & { doc: Document }>
+  ): Promise<IntegrityIssue[]> {
+    if (!this.vectorStore || !this.vectorStore.isInitialized()) return [];
+
+    const indexedIds = new Set(await this.vectorStore.listDocuments());
+    const activeDocs = new Map<string, Document>();
+    for (const { doc, archived } of files) {
+      if (!archived && this.isValidId(doc.metadata.id) && !activeDocs.has(doc.metadata.id)) {
+        activeDocs.set(doc.metadata.id, doc);
       }
     }
 
+    const issues: IntegrityIssue[] = [];
+
+    for (const id of indexedIds) {
+      if (!activeDocs.has(id)) {
+        issues.push(this.createIssue('orphan_vector', { docId: id, details: {} }));
+      }
+    }
+
+    for (const [id, doc] of activeDocs) {
+      if (!indexedIds.has(id)) {
+        issues.push(
+          this.createIssue('missing_from_index', { docId: id, details: { file: doc.file_path } })
+        );
+      }
+    }
+
+    if (issues.length > 0) {
+      this.logger.warn('Vector index out of sync', { issueCount: issues.length });
+    }
+
     return issues;
   }
 
   /**
-   * ファイルシステムとメモリの同期をチェック
-   * @returns 同期の問題の整合性の問題の配列
+   * 記録されたコンテンツハッシュと内容が一致しないドキュメントを検出
+   * （ハッシュが記録される前に作成されたドキュメントは対象外）
    */
-  private checkFileMemorySync(): IntegrityIssue[] {
+  private findHandEditedDocuments(files: Array<ScannedFile & { doc: Document }>): IntegrityIssue[] {
     const issues: IntegrityIssue[] = [];
 
-    // 注: これはファイルシステム同期チェックのプレースホルダー
-    // 完全な実装にはDocumentManagerの統合が必要
-    // ファイルシステムの状態とメモリ内キャッシュを比較する
+    for (const { doc, archived } of files) {
+      const verification = verifyContentHash(doc);
+      if (!verification || (!verification.bodyChanged && !verification.frontMatterChanged)) {
+        continue;
+      }
 
-    // 例: キャッシュ内でchange_logを持たないドキュメントをチェック
-    for (const [docId, metadata] of this.documentCache.entries()) {
-      if (!metadata.change_log || metadata.change_log.length === 0) {
-        issues.push({
-          type: 'file_memory_mismatch',
-          docId,
+      issues.push(
+        this.createIssue('hand_edited', {
+          ...(doc.metadata.id && { docId: String(doc.metadata.id) }),
           details: {
-            reason: 'Missing change log',
+            file: doc.file_path,
+            archived,
+            body_changed: verification.bodyChanged,
+            front_matter_changed: verification.frontMatterChanged,
           },
-        });
-        this.logger.warn('Document missing change log', { docId });
-      }
+        })
+      );
+      this.logger.warn('Hand-edited document detected', { filePath: doc.file_path });
     }
 
     return issues;
   }
 
   /**
-   * 問題の数とタイプに基づいて深刻度を計算
+   * 種類に応じた深刻度を付けて問題を作成
+   */
+  private createIssue(
+    type: IntegrityIssueType,
+    issue: Omit<IntegrityIssue, 'type' | 'severity'>
+  ): IntegrityIssue {
+    return { type, severity: ISSUE_SEVERITY[type], ...issue };
+  }
+
+  /**
+   * 問題の数と深刻度に基づいて全体の深刻度を計算
    * @param issues - 整合性の問題の配列
    * @returns 深刻度レベル
    */
-  private calculateSeverity(issues: IntegrityIssue[]): 'low' | 'medium' | 'high' | 'critical' {
+  private calculateSeverity(issues: IntegrityIssue[]): IntegritySeverity {
     if (issues.length === 0) return 'low';
 
-    // クリティカル: 10個以上の問題または無効なメタデータ
-    const hasInvalidMetadata = issues.some((i) => i.type === 'invalid_metadata');
-    if (issues.length > 10 || hasInvalidMetadata) return 'critical';
+    // 最も深刻な問題の深刻度
+    const highest = Math.max(...issues.map((i) => SEVERITY_ORDER.indexOf(i.severity)));
+
+    // クリティカル: 10個以上の問題
+    if (issues.length > 10) return 'critical';
 
-    // 高: 5個以上の問題または未完了の操作
-    const hasIncompleteOps = issues.some((i) => i.type === 'incomplete_operation');
-    if (issues.length > 5 || hasIncompleteOps) return 'high';
+    // 高: 5個以上の問題
+    if (issues.length > 5) return SEVERITY_ORDER[Math.max(highest, 2)] ?? 'high';
 
-    // 中: その他の問題
-    return 'medium';
+    return SEVERITY_ORDER[highest] ?? 'medium';
   }
 
   /**
-   * 整合性の問題から自動的にリカバリ
+   * 整合性の問題から自動的にリカバリし、修正をファイルに保存
+   * dryRunの場合は書き込みを行わず、各修正で行われるファイルの変更のみを返す
    * @param issues - リカバリする整合性の問題の配列
-   * @returns 合計とリカバリ数を含むリカバリ結果
+   * @param options - リカバリオプション
+   * @returns 合計とリカバリ数、問題ごとの修正内容を含むリカバリ結果
    */
-  async recover(issues: IntegrityIssue[]): Promise<RecoveryResult> {
-    this.logger.info('Starting automatic recovery', { issueCount: issues.length });
-    let recovered = 0;
+  async recover(issues: IntegrityIssue[], options: RecoveryOptions = {}): Promise<RecoveryResult> {
+    const dryRun = options.dryRun ?? false;
+    this.logger.info('Starting automatic recovery', { issueCount: issues.length, dryRun });
+
+    const ordered = [...issues].sort(
+      (a, b) => RECOVERY_ORDER.indexOf(a.type) - RECOVERY_ORDER.indexOf(b.type)
+    );
+    const fixes: FixResult[] = [];
+
+    const run = async (): Promise<void> => {
+      for (const issue of ordered) {
+        if (MANUAL_ISSUE_TYPES.includes(issue.type)) {
+          fixes.push({
+            issue,
+            description:
+              '自動では修正しません（内容を確認して accept_manual_edit で受け入れてください）',
+            changes: [],
+            applied: false,
+          });
+          continue;
+        }
 
-    for (const issue of issues) {
-      try {
-        switch (issue.type) {
-          case 'invalid_metadata':
-            await this.fixMetadata(issue.docId!);
-            recovered++;
-            break;
-
-          case 'incomplete_operation':
-            await this.completeOperation(issue.operation!);
-            recovered++;
-            break;
-
-          case 'file_memory_mismatch':
-            await this.syncFileToMemory(issue.docId!);
-            recovered++;
-            break;
-
-          default:
-            this.logger.warn('Unknown issue type', { issue });
+        // 先に実行した修正の結果を反映するため、適用の直前に修正内容を求める
+        let plan: FixPlan | null = null;
+        try {
+          plan = await this.planFix(issue);
+          if (plan && !dryRun) {
+            await plan.apply();
+          }
+          fixes.push({
+            issue,
+            description: plan?.description ?? '解消済み',
+            changes: plan?.changes ?? [],
+            applied: !dryRun,
+          });
+        } catch (error) {
+          this.logger.error('Recovery failed for issue', { issue, error });
+          fixes.push({
+            issue,
+            description: plan?.description ?? '修正内容を求められませんでした',
+            changes: plan?.changes ?? [],
+            applied: false,
+            error: error instanceof Error ? error.message : String(error),
+          });
         }
-      } catch (error) {
-        this.logger.error('Recovery failed for issue', { issue, error });
       }
+
+      // ファイルの移動やIDの振り直しをマニフェストに反映
+      if (!dryRun) {
+        await this.documentManager.refreshManifest();
+      }
+    };
+
+    if (dryRun) {
+      await run();
+    } else {
+      await this.documentManager.withLock('integrity_recover', run);
     }
 
-    const result = { total: issues.length, recovered };
-    this.logger.info('Recovery completed', result);
+    const recovered = fixes.filter((fix) => fix.applied).length;
+    const result: RecoveryResult = { total: issues.length, recovered, dryRun, fixes };
+    this.logger.info('Recovery completed', { total: issues.length, recovered, dryRun });
 
     // 監査ログに記録
-    await this.auditLogger.log({
-      timestamp: new Date().toISOString(),
-      action: 'auto_recovery',
-      actor: 'system',
-      details: result,
-      impact: recovered < issues.length ? 'high' : 'medium',
-    });
+    if (!dryRun) {
+      await this.auditLogger.log({
+        timestamp: new Date().toISOString(),
+        action: 'auto_recovery',
+        actor: 'system',
+        details: { total: issues.length, recovered },
+        impact: recovered < issues.length ? 'high' : 'medium',
+      });
+    }
 
     return result;
   }
 
   /**
-   * 無効なメタデータを修正
-   * @param docId - 修正するドキュメントID
+   * 整合性レポートと修正結果をMarkdown形式にフォーマット
+   * @param report - 整合性レポート
+   * @param recovery - 修正結果（修正・プレビューを行った場合）
    */
-  private async fixMetadata(docId: string): Promise<void> {
-    this.logger.info('Fixing metadata', { docId });
+  formatReport(report: IntegrityReport, recovery?: RecoveryResult): string {
+    let text = `# 整合性チェック結果\n\n`;
+    text += `- 深刻度: ${report.severity}\n`;
+    text += `- 問題: ${report.issues.length}件\n`;
 
-    const metadata = this.documentCache.get(docId);
-    if (!metadata) {
-      this.logger.warn('Document not found in cache', { docId });
-      return;
+    if (report.issues.length === 0) {
+      return text + '\n整合性の問題は見つかりませんでした。\n';
     }
 
-    // 一般的な問題の修正を試行
-    let fixed = false;
+    text += `\n## 深刻度別\n\n`;
+    for (const severity of [...SEVERITY_ORDER].reverse()) {
+      const count = report.issues.filter((issue) => issue.severity === severity).length;
+      if (count) {
+        text += `- ${severity}: ${count}件\n`;
+      }
+    }
+
+    text += `\n## 種類別\n`;
+    for (const type of RECOVERY_ORDER) {
+      const issues = report.issues.filter((issue) => issue.type === type);
+      if (issues.length === 0) continue;
+
+      text += `\n### ${type} (${ISSUE_SEVERITY[type]}, ${issues.length}件)\n\n`;
+      for (const issue of issues) {
+        text += `- ${this.describeIssue(issue)}\n`;
+      }
+    }
+
+    if (!recovery) {
+      text += `\n修正内容を確認するには dryRun、修正するには fix を有効にして再実行してください。\n`;
+      return text;
+    }
+
+    text += recovery.dryRun
+      ? `\n## 修正内容のプレビュー（書き込みは行われていません）\n\n` +
+        `各修正は現在の状態から求めています。実際の修正では先に行われた修正の結果が反映されるため、` +
+        `別の修正で解消される問題は変更なしになる場合があります。\n`
+      : `\n## 修正結果（${recovery.recovered}/${recovery.total}件を修正）\n`;
+
+    for (const fix of recovery.fixes) {
+      const status = fix.error ? ` ❌ ${fix.error}` : fix.applied ? ' ✅' : '';
+      text += `\n### ${fix.issue.type}: ${fix.description}${status}\n`;
+      if (fix.changes.length === 0) {
+        text += `\n変更なし\n`;
+        continue;
+      }
+
+      text += '\n';
+      for (const change of fix.changes) {
+        text += `- ${this.describeChange(change)}\n`;
+        if (change.diff) {
+          text += '\n```diff\n' + change.diff + '\n```\n\n';
+        }
+      }
+    }
+
+    return text;
+  }
+
+  /**
+   * 問題の概要を1行で表す
+   */
+  private describeIssue(issue: IntegrityIssue): string {
+    const target = issue.docId ?? '';
+    const file = typeof issue.details.file === 'string' ? path.basename(issue.details.file) : '';
+
+    switch (issue.type) {
+      case 'unparseable_front_matter':
+        return `${file}: ${String(issue.details.error)}`;
+      case 'invalid_metadata':
+        return `${file}: ${(issue.details.problems as string[]).join(', ')}`;
+      case 'duplicate_id':
+        return `${target}: ${(issue.details.files as string[]).map((f) => path.basename(f)).join(', ')}`;
+      case 'filename_mismatch':
+        return `${file} → ${String(issue.details.expected)}`;
+      case 'missing_merge_source':
+        return `${target}: ${(issue.details.missing_ids as string[]).join(', ')}`;
+      case 'hand_edited': {
+        const parts = [
+          issue.details.body_changed ? '本文' : '',
+          issue.details.front_matter_changed ? 'フロントマター' : '',
+        ].filter(Boolean);
+        return `${target || file}: ${parts.join('・')}が変更されています`;
+      }
+      case 'incomplete_operation':
+        return `${issue.operation} (journal ${String(issue.details.journal_id)}): 未完了 ${(issue.details.pending_steps as string[]).join(', ')}`;
+      default:
+        return target;
+    }
+  }
+
+  /**
+   * ファイルの変更を1行で表す
+   */
+  private describeChange(change: FileChange): string {
+    switch (change.action) {
+      case 'write':
+        return `書き込み: ${change.path}`;
+      case 'rename':
+        return `ファイル名変更: ${change.path} → ${change.to}`;
+      case 'move':
+        return `移動: ${change.path} → ${change.to}`;
+      case 'delete':
+        return `削除: ${change.path}`;
+      case 'index_add':
+        return `ベクトルインデックスに登録: ${change.path}`;
+      case 'index_delete':
+        return `ベクトルインデックスから削除: ${change.path}`;
+    }
+  }
+
+  /**
+   * 問題の種類に応じた修正内容を求める
+   * @returns 修正が不要になっている場合（先に実行した修正で解消済みなど）はnull
+   */
+  private async planFix(issue: IntegrityIssue): Promise<FixPlan | null> {
+    const file = typeof issue.details.file === 'string' ? issue.details.file : undefined;
+
+    switch (issue.type) {
+      case 'unparseable_front_matter':
+        return await this.planQuarantine(file!);
+
+      case 'invalid_metadata':
+        return await this.planMetadataFix(file!);
+
+      case 'duplicate_id':
+        return await this.planDuplicateIdFix(issue.docId!, issue.details.files as string[]);
+
+      case 'filename_mismatch':
+        return await this.planFileNameFix(file!);
+
+      case 'missing_merge_source':
+        return await this.planMergeSourcesFix(file!, issue.details.missing_ids as string[]);
+
+      case 'incomplete_operation':
+        return await this.planOperationRecovery(issue);
+
+      case 'orphan_vector':
+        return this.planOrphanVectorFix(issue.docId!);
+
+      case 'missing_from_index':
+        return await this.planIndexFix(issue.docId!);
+
+      default:
+        this.logger.warn('Unknown issue type', { issue });
+        return null;
+    }
+  }
 
-    // 欠落している必須フィールドをデフォルト値で修正
-    if (!metadata.created) {
-      metadata.created = new Date().toISOString();
-      fixed = true;
+  /**
+   * 修正対象のファイルを読み込む
+   * 先に実行した修正で移動・削除されている場合はnull
+   */
+  private async loadForFix(filePath: string): Promise<Document | null> {
+    try {
+      return await this.readDocument(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.logger.debug('File already moved by a previous fix', { filePath });
+        return null;
+      }
+      throw error;
     }
+  }
 
-    if (!metadata.updated) {
-      metadata.updated = metadata.created || new Date().toISOString();
-      fixed = true;
+  /**
+   * ドキュメントを保存した場合のファイルの変更（変更前後の差分付き）
+   */
+  private async planWrite(doc: Document): Promise<FileChange> {
+    const before = await fs.readFile(doc.file_path, 'utf-8');
+    const after = this.documentManager.renderDocument(doc);
+
+    return {
+      action: 'write',
+      path: doc.file_path,
+      diff: createLineDiff(before, after, {
+        fromLabel: doc.file_path,
+        toLabel: doc.file_path,
+      }),
+    };
+  }
+
+  /**
+   * ファイル名をIDと要約から生成した名前に変更する場合のファイルの変更
+   * @param filePath - 変更時点のファイルパス（IDの振り直しで内容が変わる場合は変更前のパス）
+   */
+  private planRename(filePath: string, metadata: DocumentMetadata): FileChange | null {
+    const renamedPath = path.join(
+      path.dirname(filePath),
+      this.documentManager.generateFileName(metadata)
+    );
+    return renamedPath === filePath ? null : { action: 'rename', path: filePath, to: renamedPath };
+  }
+
+  /**
+   * フロントマターを解析できないファイルを .claude/docs/.quarantine に移動
+   * 手動で修正して元のディレクトリに戻せるよう、ファイルの内容はそのまま残す
+   */
+  private async planQuarantine(filePath: string): Promise<FixPlan | null> {
+    try {
+      await fs.access(filePath);
+    } catch {
+      return null;
+    }
+
+    const baseName = path.basename(filePath, '.md');
+    let target = path.join(this.quarantineDir, `${baseName}.md`);
+    try {
+      await fs.access(target);
+      target = path.join(this.quarantineDir, `${baseName}.${Date.now()}.md`);
+    } catch {
+      // 同名のファイルがなければそのまま移動
+    }
+
+    return {
+      description: 'ファイルを隔離ディレクトリに移動',
+      changes: [{ action: 'move', path: filePath, to: target }],
+      apply: async () => {
+        await fs.mkdir(this.quarantineDir, { recursive: true });
+        await fs.rename(filePath, target);
+        this.logger.info('Unparseable document quarantined', { filePath, target });
+
+        await this.auditLogger.log({
+          timestamp: new Date().toISOString(),
+          action: 'quarantine_document',
+          actor: 'system',
+          details: { file: filePath, quarantined_to: target },
+          impact: 'medium',
+        });
+      },
+    };
+  }
+
+  /**
+   * 無効なメタデータを修正して保存
+   * IDが不正な場合は新しいIDを振り直し、ファイル名も合わせて変更する
+   * @param filePath - 修正するドキュメントのファイルパス
+   */
+  private async planMetadataFix(filePath: string): Promise<FixPlan | null> {
+    const doc = await this.loadForFix(filePath);
+    if (!doc) return null;
+
+    const metadata = doc.metadata;
+    const fixed: string[] = [];
+    const previousId = metadata.id;
+
+    if (!this.isValidId(metadata.id)) {
+      metadata.id = uuidv4();
+      fixed.push('id');
+    }
+
+    if (!metadata.created || isNaN(new Date(metadata.created).getTime())) {
+      metadata.created = (await fs.stat(filePath)).mtime.toISOString();
+      fixed.push('created');
+    }
+
+    if (isNaN(new Date(metadata.updated).getTime())) {
+      // updatedは保存時に設定される
+      fixed.push('updated');
     }
 
     if (!metadata.author || metadata.author === '') {
       metadata.author = 'unknown';
-      fixed = true;
+      fixed.push('author');
     }
 
     if (!metadata.summary || metadata.summary === '') {
-      metadata.summary = 'No summary available';
-      fixed = true;
+      const heading = doc.content.match(/^#+\s+(.+)$/m);
+      metadata.summary = heading?.[1]?.trim() ?? 'No summary available';
+      fixed.push('summary');
     }
 
-    if (fixed) {
-      this.documentCache.set(docId, metadata);
-      this.logger.info('Metadata fixed successfully', { docId });
+    if (!Array.isArray(metadata.tags)) metadata.tags = [];
+    if (!Array.isArray(metadata.related_files)) metadata.related_files = [];
 
-      await this.auditLogger.log({
+    if (fixed.length === 0) return null;
+
+    metadata.change_log = [
+      ...(metadata.change_log ?? []),
+      {
         timestamp: new Date().toISOString(),
-        action: 'fix_metadata',
-        actor: 'system',
-        details: { docId, fixed: true },
-        impact: 'medium',
-      });
+        action: 'metadata_fixed',
+        author: 'system',
+        reason: 'Fixed by integrity check',
+        details: {
+          fields: fixed,
+          ...(previousId !== metadata.id && { previous_id: previousId ?? null }),
+        },
+      },
+    ];
+
+    const rename = fixed.includes('id') ? this.planRename(filePath, metadata) : null;
+    const changes = [await this.planWrite(doc), ...(rename ? [rename] : [])];
+    if (fixed.includes('id') && this.isIndexed(doc)) {
+      changes.push({ action: 'index_add', path: metadata.id });
     }
+
+    return {
+      description: `メタデータを修正: ${fixed.join(', ')}`,
+      changes,
+      apply: async () => {
+        const saved = await this.documentManager.saveDocument(doc);
+        if (fixed.includes('id')) {
+          await this.indexReassignedDocument(await this.documentManager.renameDocumentFile(saved));
+        }
+
+        this.logger.info('Metadata fixed successfully', { id: metadata.id, fixed });
+
+        await this.auditLogger.log({
+          timestamp: new Date().toISOString(),
+          action: 'fix_metadata',
+          actor: 'system',
+          details: { doc_id: metadata.id, fields: fixed },
+          impact: 'medium',
+        });
+      },
+    };
   }
 
   /**
-   * 未完了の操作を完了
-   * @param operation - 完了する操作タイプ
+   * 同じIDを持つファイルを解消
+   * アクティブ・ファイル名が一致する・更新日時が新しいファイルを残し、
+   * 内容が同一のコピーは削除、内容が異なるファイルには新しいIDを振り直す
    */
-  private async completeOperation(operation: string): Promise<void> {
-    this.logger.info('Completing operation', { operation });
+  private async planDuplicateIdFix(docId: string, files: string[]): Promise<FixPlan | null> {
+    const docs: Document[] = [];
+    for (const file of files) {
+      const doc = await this.loadForFix(file);
+      if (doc?.metadata.id === docId) docs.push(doc);
+    }
+    if (docs.length < 2) return null;
+
+    const archiveDir = this.documentManager.getArchiveDir();
+    const idPrefix = docId.split('-')[0];
+    const score = (doc: Document): [number, number, number] => [
+      path.dirname(doc.file_path) === archiveDir ? 0 : 1,
+      path.basename(doc.file_path).split('_')[1] === idPrefix ? 1 : 0,
+      new Date(doc.metadata.updated).getTime() || 0,
+    ];
+    docs.sort((a, b) => {
+      const [sa, sb] = [score(a), score(b)];
+      return sb[0] - sa[0] || sb[1] - sa[1] || sb[2] - sa[2];
+    });
 
-    // 実装は操作タイプに依存
-    switch (operation) {
-      case 'merge':
-        // マージを完了としてマークまたはロールバック
-        this.logger.info('Completing merge operation');
-        break;
+    const [keep, ...others] = docs as [Document, ...Document[]];
+    const copies: Document[] = [];
+    const conflicts: Document[] = [];
+    const changes: FileChange[] = [];
+
+    for (const doc of others) {
+      if (
+        doc.content === keep.content &&
+        JSON.stringify(doc.metadata) === JSON.stringify(keep.metadata)
+      ) {
+        copies.push(doc);
+        changes.push({ action: 'delete', path: doc.file_path });
+        continue;
+      }
 
-      case 'merge_inconsistency':
-        // マージメタデータの不整合を修正
-        this.logger.info('Fixing merge inconsistency');
-        break;
+      doc.metadata.id = uuidv4();
+      doc.metadata.change_log = [
+        ...(doc.metadata.change_log ?? []),
+        {
+          timestamp: new Date().toISOString(),
+          action: 'id_reassigned',
+          author: 'system',
+          reason: 'Duplicate document id',
+          details: { previous_id: docId, kept_file: keep.file_path },
+        },
+      ];
+      conflicts.push(doc);
 
-      default:
-        this.logger.warn('Unknown operation type', { operation });
+      const rename = this.planRename(doc.file_path, doc.metadata);
+      changes.push(await this.planWrite(doc), ...(rename ? [rename] : []));
+      if (this.isIndexed(doc)) {
+        changes.push({ action: 'index_add', path: doc.metadata.id });
+      }
     }
 
-    await this.auditLogger.log({
-      timestamp: new Date().toISOString(),
-      action: 'complete_operation',
-      actor: 'system',
-      details: { operation },
-      impact: 'medium',
-    });
+    return {
+      description: `${path.basename(keep.file_path)} を残し、同一内容のコピー${copies.length}件を削除、内容が異なる${conflicts.length}件にIDを振り直す`,
+      changes,
+      apply: async () => {
+        const reassigned: Array<{ file: string; id: string }> = [];
+
+        for (const doc of copies) {
+          await fs.unlink(doc.file_path);
+        }
+
+        for (const doc of conflicts) {
+          const saved = await this.documentManager.saveDocument(doc);
+          const renamed = await this.documentManager.renameDocumentFile(saved);
+          await this.indexReassignedDocument(renamed);
+          reassigned.push({ file: renamed.file_path, id: doc.metadata.id });
+        }
+
+        const removed = copies.map((doc) => doc.file_path);
+        this.logger.info('Duplicate id resolved', {
+          docId,
+          kept: keep.file_path,
+          reassigned,
+          removed,
+        });
+
+        await this.auditLogger.log({
+          timestamp: new Date().toISOString(),
+          action: 'fix_duplicate_id',
+          actor: 'system',
+          details: { doc_id: docId, kept: keep.file_path, reassigned, removed },
+          impact: 'medium',
+        });
+      },
+    };
   }
 
   /**
-   * ファイルをメモリキャッシュに同期
-   * @param docId - 同期するドキュメントID
+   * ファイル名をIDと要約から生成した名前に変更
    */
-  private async syncFileToMemory(docId: string): Promise<void> {
-    this.logger.info('Syncing file to memory', { docId });
+  private async planFileNameFix(filePath: string): Promise<FixPlan | null> {
+    const doc = await this.loadForFix(filePath);
+    if (!doc) return null;
+
+    const rename = this.planRename(filePath, doc.metadata);
+    if (!rename) return null;
+
+    return {
+      description: 'ファイル名をIDに合わせて変更',
+      changes: [rename],
+      apply: async () => {
+        const renamed = await this.documentManager.renameDocumentFile(doc);
 
-    const metadata = this.documentCache.get(docId);
-    if (!metadata) {
-      this.logger.warn('Document not found in cache', { docId });
-      return;
+        await this.auditLogger.log({
+          timestamp: new Date().toISOString(),
+          action: 'fix_filename',
+          actor: 'system',
+          details: { doc_id: doc.metadata.id, from: filePath, to: renamed.file_path },
+          impact: 'low',
+        });
+      },
+    };
+  }
+
+  /**
+   * アーカイブに存在しない統合元を解消
+   * 統合元がアクティブなまま残っている場合はアーカイブしてマージを完了させ、
+   * 統合後に意図して復元された場合やどこにも存在しない場合は merged_from から外して change_log に記録する
+   */
+  private async planMergeSourcesFix(
+    filePath: string,
+    missingIds: string[]
+  ): Promise<FixPlan | null> {
+    const doc = await this.loadForFix(filePath);
+    if (!doc) return null;
+
+    const toArchive: Document[] = [];
+    const removed: string[] = [];
+    const restored: string[] = [];
+
+    for (const id of missingIds) {
+      if (await this.documentManager.getArchivedDocument(id)) continue;
+
+      const source = await this.documentManager.getDocument(id);
+      if (!source) {
+        removed.push(id);
+      } else if (this.isRestoredAfter(source, doc.metadata.created)) {
+        restored.push(id);
+      } else {
+        toArchive.push(source);
+      }
     }
 
-    // change_logが欠落している場合は初期化
-    if (!metadata.change_log) {
-      const author = Array.isArray(metadata.author)
-        ? (metadata.author[0] ?? 'unknown')
-        : (metadata.author ?? 'unknown');
+    if (toArchive.length === 0 && removed.length === 0 && restored.length === 0) return null;
+
+    const changes: FileChange[] = [];
+    for (const source of toArchive) {
+      changes.push({
+        action: 'move',
+        path: source.file_path,
+        to: path.join(this.documentManager.getArchiveDir(), path.basename(source.file_path)),
+      });
+      if (this.isIndexed(source)) {
+        changes.push({ action: 'index_delete', path: source.metadata.id });
+      }
+    }
 
-      metadata.change_log = [
+    const pruned = [...removed, ...restored];
+    if (pruned.length > 0) {
+      doc.metadata.merged_from = (doc.metadata.merged_from ?? []).filter(
+        (id) => !pruned.includes(id)
+      );
+      doc.metadata.change_log = [
+        ...(doc.metadata.change_log ?? []),
         {
           timestamp: new Date().toISOString(),
-          action: 'created',
-          author,
-          reason: 'Initialized during sync',
+          action: 'merge_sources_pruned',
+          author: 'system',
+          reason:
+            restored.length > 0
+              ? 'Merge sources restored after merge or not found in archive'
+              : 'Merge sources not found in archive',
+          details: { removed, restored },
         },
       ];
+      changes.push(await this.planWrite(doc));
+    }
 
-      this.documentCache.set(docId, metadata);
-      this.logger.info('Change log initialized', { docId });
+    const archived = toArchive.map((source) => source.metadata.id);
+
+    return {
+      description: `アクティブな統合元${archived.length}件をアーカイブし、復元済みの統合元${restored.length}件と存在しない統合元${removed.length}件を merged_from から外す`,
+      changes,
+      apply: async () => {
+        for (const id of archived) {
+          await this.documentManager.archiveDocument(id, {
+            actor: 'system',
+            reason: 'Merge source left active after merge',
+            details: { merged_into: doc.metadata.id },
+          });
+          if (this.vectorStore?.isInitialized()) {
+            await this.vectorStore.deleteDocument(id).catch(() => undefined);
+          }
+        }
 
-      await this.auditLogger.log({
-        timestamp: new Date().toISOString(),
-        action: 'sync_file_to_memory',
-        actor: 'system',
-        details: { docId, changeLogInitialized: true },
-        impact: 'low',
-      });
+        if (pruned.length > 0) {
+          await this.documentManager.saveDocument(doc);
+        }
+
+        await this.auditLogger.log({
+          timestamp: new Date().toISOString(),
+          action: 'fix_merge_sources',
+          actor: 'system',
+          details: { doc_id: doc.metadata.id, archived, removed, restored },
+          impact: 'medium',
+        });
+      },
+    };
+  }
+
+  /**
+   * 指定日時より後に change_log に復元が記録されているか（利用者が意図して戻した統合元）
+   */
+  private isRestoredAfter(doc: Document, since: string): boolean {
+    return (doc.metadata.change_log ?? []).some(
+      (entry) => entry.action === 'restored' && entry.timestamp > since
+    );
+  }
+
+  /**
+   * 未完了の操作をジャーナルに従って再実行またはロールバック
+   * 統合ドキュメントの作成が完了していれば残りの統合元をアーカイブし、
+   * 完了していなければ統合ドキュメントを削除してアーカイブ済みの統合元を復元する
+   */
+  private async planOperationRecovery(issue: IntegrityIssue): Promise<FixPlan | null> {
+    if (issue.operation !== 'merge') {
+      this.logger.warn('Unknown operation type', { operation: issue.operation });
+      return null;
     }
+
+    const journalId = String(issue.details.journal_id);
+    const entry = (await this.journal.listIncomplete()).find((e) => e.id === journalId);
+    if (!entry) return null;
+
+    const merged = entry.merged_id ? await this.documentManager.getDocument(entry.merged_id) : null;
+    const replay = !!merged && this.journal.isStepDone(entry, 'create_merged');
+    const changes: FileChange[] = [];
+
+    if (replay) {
+      for (const id of entry.source_ids) {
+        const source = await this.documentManager.getDocument(id);
+        if (!source) continue;
+        changes.push({
+          action: 'move',
+          path: source.file_path,
+          to: path.join(this.documentManager.getArchiveDir(), path.basename(source.file_path)),
+        });
+      }
+    } else {
+      if (merged) {
+        changes.push({ action: 'delete', path: merged.file_path });
+      }
+      for (const id of entry.archived_ids) {
+        const source = await this.documentManager.getArchivedDocument(id);
+        if (!source) continue;
+        changes.push({
+          action: 'move',
+          path: source.file_path,
+          to: path.join(this.documentManager.getDocsDir(), path.basename(source.file_path)),
+        });
+      }
+    }
+
+    return {
+      description: replay ? '残りのマージのステップを再実行' : '作成途中のマージをロールバック',
+      changes,
+      apply: async () => {
+        if (!this.mergeRecoverer) {
+          throw new Error('Merge recovery is not available');
+        }
+
+        // 未完了のマージはまとめて復旧される（復旧済みのエントリは残らない）
+        const results = await this.mergeRecoverer.recoverIncompleteMerges();
+
+        await this.auditLogger.log({
+          timestamp: new Date().toISOString(),
+          action: 'complete_operation',
+          actor: 'system',
+          details: { operation: issue.operation, results },
+          impact: 'medium',
+        });
+      },
+    };
+  }
+
+  /**
+   * ドキュメントが存在しないベクトルを削除
+   */
+  private planOrphanVectorFix(docId: string): FixPlan {
+    return {
+      description: 'ベクトルをインデックスから削除',
+      changes: [{ action: 'index_delete', path: docId }],
+      apply: async () => {
+        await this.requireVectorStore().deleteDocument(docId);
+      },
+    };
   }
 
   /**
-   * 整合性チェックのためキャッシュにドキュメントを追加
-   * @param docId - ドキュメントID
-   * @param metadata - ドキュメントメタデータ
+   * ベクトルインデックスに未登録のドキュメントを登録
+   * （先に実行した修正でファイル名が変わっている場合があるためIDで取得する）
    */
-  addToCache(docId: string, metadata: DocumentMetadata): void {
-    this.documentCache.set(docId, metadata);
-    this.logger.debug('Document added to cache', { docId });
+  private async planIndexFix(docId: string): Promise<FixPlan | null> {
+    const doc = await this.documentManager.getDocument(docId);
+    if (!doc) return null;
+
+    return {
+      description: 'ドキュメントをインデックスに登録',
+      changes: [{ action: 'index_add', path: docId }],
+      apply: async () => {
+        await this.requireVectorStore().addDocument(VectorStore.toDocumentVector(doc));
+      },
+    };
   }
 
   /**
-   * キャッシュからドキュメントを削除
-   * @param docId - ドキュメントID
+   * アクティブなドキュメントで、ベクトルインデックスの対象か判定
    */
-  removeFromCache(docId: string): void {
-    this.documentCache.delete(docId);
-    this.logger.debug('Document removed from cache', { docId });
+  private isIndexed(doc: Document): boolean {
+    return (
+      !!this.vectorStore?.isInitialized() &&
+      path.dirname(doc.file_path) === this.documentManager.getDocsDir()
+    );
   }
 
   /**
-   * キャッシュからすべてのドキュメントをクリア
+   * IDを振り直したドキュメントをベクトルインデックスに登録（VectorStoreが有効な場合のみ）
    */
-  clearCache(): void {
-    this.documentCache.clear();
-    this.logger.debug('Cache cleared');
+  private async indexReassignedDocument(doc: Document): Promise<void> {
+    if (!this.isIndexed(doc)) return;
+
+    try {
+      await this.vectorStore!.addDocument(VectorStore.toDocumentVector(doc));
+    } catch (error) {
+      this.logger.warn('Failed to index reassigned document', { id: doc.metadata.id, error });
+    }
   }
 
   /**
-   * キャッシュサイズを取得
-   * @returns キャッシュ内のドキュメント数
+   * 初期化済みのVectorStoreを取得
    */
-  getCacheSize(): number {
-    return this.documentCache.size;
+  private requireVectorStore(): VectorStore {
+    if (!this.vectorStore || !this.vectorStore.isInitialized()) {
+      throw new Error('Vector store is not available');
+    }
+    return this.vectorStore;
   }
 }
@@ -0,0 +1,183 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { writeFileAtomic } from '../utils/fileSystem.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * マージ操作のステップ
+ * - create_merged: 統合ドキュメントの作成とマージ用メタデータの書き込み
+ * - archive_sources: 統合元ドキュメントのアーカイブ
+ * - update_index: ベクトルインデックスの更新
+ */
+export type JournalStepName = 'create_merged' | 'archive_sources' | 'update_index';
+
+/**
+ * 操作の状態
+ */
+export type JournalStatus = 'in_progress' | 'completed' | 'replayed' | 'rolled_back';
+
+/**
+ * ステップの進行状況
+ */
+export interface JournalStep {
+  name: JournalStepName;
+  status: 'pending' | 'done';
+  completed_at?: string; // ISO 8601形式
+}
+
+/**
+ * ジャーナルエントリ（1回のマージ操作）
+ */
+export interface JournalEntry {
+  id: string;
+  operation: 'merge';
+  status: JournalStatus;
+  started: string; // ISO 8601形式
+  updated: string; // ISO 8601形式
+  pid: number;
+  hostname: string;
+  source_ids: string[]; // 統合元ドキュメントID
+  merged_id?: string; // 作成された統合ドキュメントID
+  archived_ids: string[]; // アーカイブ済みの統合元ドキュメントID
+  steps: JournalStep[];
+}
+
+/**
+ * マージ操作のステップ（実行順）
+ */
+const MERGE_STEPS: JournalStepName[] = ['create_merged', 'archive_sources', 'update_index'];
+
+/**
+ * 操作ジャーナルクラス
+ * 複数ステップの操作を .claude/docs/.journal に先行書き込みし、
+ * 途中でプロセスが終了した場合に再実行またはロールバックできるようにする
+ */
+export class OperationJournal {
+  private journalDir: string;
+  private logger: Logger;
+
+  constructor(docsDir?: string) {
+    this.journalDir = path.join(docsDir ?? path.join(process.cwd(), '.claude/docs'), '.journal');
+    this.logger = new Logger('OperationJournal');
+  }
+
+  /**
+   * ジャーナルディレクトリを作成
+   */
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.journalDir, { recursive: true });
+  }
+
+  /**
+   * マージ操作の開始を記録
+   * @param sourceIds - 統合元ドキュメントID
+   */
+  async beginMerge(sourceIds: string[]): Promise<JournalEntry> {
+    const now = new Date().toISOString();
+    const entry: JournalEntry = {
+      id: uuidv4(),
+      operation: 'merge',
+      status: 'in_progress',
+      started: now,
+      updated: now,
+      pid: process.pid,
+      hostname: os.hostname(),
+      source_ids: sourceIds,
+      archived_ids: [],
+      steps: MERGE_STEPS.map((name) => ({ name, status: 'pending' })),
+    };
+
+    await this.initialize();
+    await this.write(entry);
+    this.logger.debug('Journal entry started', { id: entry.id, sourceIds });
+
+    return entry;
+  }
+
+  /**
+   * エントリの途中経過（統合ドキュメントID・アーカイブ済みIDなど）を記録
+   */
+  async record(
+    entry: JournalEntry,
+    changes: Partial<Pick<JournalEntry, 'merged_id' | 'archived_ids'>>
+  ): Promise<void> {
+    Object.assign(entry, changes);
+    await this.write(entry);
+  }
+
+  /**
+   * ステップの完了を記録
+   */
+  async completeStep(entry: JournalEntry, name: JournalStepName): Promise<void> {
+    const step = entry.steps.find((s) => s.name === name);
+    if (step) {
+      step.status = 'done';
+      step.completed_at = new Date().toISOString();
+    }
+    await this.write(entry);
+  }
+
+  /**
+   * ステップが完了しているか判定
+   */
+  isStepDone(entry: JournalEntry, name: JournalStepName): boolean {
+    return entry.steps.some((s) => s.name === name && s.status === 'done');
+  }
+
+  /**
+   * 操作を終了し、エントリを削除
+   * @param status - 終了時の状態（ログ用）
+   */
+  async finish(entry: JournalEntry, status: Exclude<JournalStatus, 'in_progress'>): Promise<void> {
+    entry.status = status;
+    await fs.rm(this.entryPath(entry.id), { force: true });
+    this.logger.debug('Journal entry finished', { id: entry.id, status });
+  }
+
+  /**
+   * 未完了の操作を取得（開始の古い順）
+   */
+  async listIncomplete(): Promise<JournalEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.journalDir);
+    } catch {
+      return [];
+    }
+
+    const entries: JournalEntry[] = [];
+
+    for (const file of files) {
+      if (file.startsWith('.') || !file.endsWith('.json')) continue;
+
+      try {
+        const content = await fs.readFile(path.join(this.journalDir, file), 'utf-8');
+        const entry = JSON.parse(content) as JournalEntry;
+        if (entry.status === 'in_progress') {
+          entries.push(entry);
+        }
+      } catch (error) {
+        this.logger.warn('Failed to read journal entry', { file, error });
+      }
+    }
+
+    return entries.sort((a, b) => a.started.localeCompare(b.started));
+  }
+
+  /**
+   * エントリをアトミックに書き込む
+   */
+  private async write(entry: JournalEntry): Promise<void> {
+    entry.updated = new Date().toISOString();
+    await writeFileAtomic(this.entryPath(entry.id), JSON.stringify(entry, null, 2));
+  }
+
+  /**
+   * エントリのファイルパス
+   */
+  private entryPath(id: string): string {
+    return path.join(this.journalDir, `${id}.json`);
+  }
+}
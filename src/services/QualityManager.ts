@@ -1,5 +1,12 @@
 import { DocumentManager } from './DocumentManager.js';
-import type { Document } from '../models/Document.js';
+import { ConfigManager } from './ConfigManager.js';
+import type { AuditLogger } from './AuditLogger.js';
+import {
+  RelatedFileTracker,
+  type RelatedFileChange,
+  type RelatedFileRename,
+} from './RelatedFileTracker.js';
+import type { ChangeContext, Document, DocumentMetadata } from '../models/Document.js';
 import { Logger } from '../utils/logger.js';
 
 /**
@@ -36,7 +43,6 @@ export interface QualityReport {
 export interface QualityScores {
   freshness: number; // 鮮度スコア（0-100）
   completeness: number; // 完全性スコア（0-100）
-  references: number; // 参照回数
   total: number; // 総合スコア（0-100）
 }
 
@@ -59,6 +65,15 @@ export interface Contradiction {
   files: string[];
 }
 
+/**
+ * 関連ファイルの同期結果
+ */
+export interface RelatedFileSyncResult {
+  flagged: Document[]; // 新たに要見直しとしてマークしたドキュメント
+  renamed: Document[]; // related_filesのパスを書き換えたドキュメント
+  skipped: Array<{ doc: Document; reason: string }>; // 固定・保護のため要見直しにしなかったドキュメント
+}
+
 /**
  * 依存性注入用のDocumentMergerインターフェース
  */
@@ -73,11 +88,19 @@ export interface IDocumentMerger {
 export class QualityManager {
   private documentManager: DocumentManager;
   private documentMerger: IDocumentMerger | undefined;
+  private auditLogger: AuditLogger | undefined;
+  private relatedFileTracker: RelatedFileTracker;
   private logger: Logger;
 
-  constructor(documentManager: DocumentManager, documentMerger?: IDocumentMerger) {
+  constructor(
+    documentManager: DocumentManager,
+    documentMerger?: IDocumentMerger,
+    auditLogger?: AuditLogger
+  ) {
     this.documentManager = documentManager;
     this.documentMerger = documentMerger;
+    this.auditLogger = auditLogger;
+    this.relatedFileTracker = new RelatedFileTracker();
     this.logger = new Logger('QualityManager');
   }
 
@@ -119,10 +142,25 @@ export class QualityManager {
    * すべてのドキュメントに対して包括的な品質チェックを実行
    */
   async checkDocumentQuality(fix: boolean = false): Promise<QualityReport> {
+    // 関連ファイルの変更を先に反映し、要見直しのドキュメントを古い情報として報告する
+    const sync = ConfigManager.getInstance().getNested('fileWatcher', 'trackRelatedFiles')
+      ? await this.syncRelatedFiles()
+      : undefined;
+
     const allDocs = await this.documentManager.getAllDocuments();
     const issues: QualityIssue[] = [];
     const scores: number[] = [];
 
+    // 固定・保護されたドキュメントは要見直しにせず報告のみ行う
+    for (const { doc, reason } of sync?.skipped ?? []) {
+      issues.push({
+        docId: doc.metadata.id,
+        type: 'stale',
+        severity: 'medium',
+        message: `Pinned or protected document was not flagged for review: ${reason}`,
+      });
+    }
+
     this.logger.info('Starting quality check', {
       totalDocuments: allDocs.length,
       fixMode: fix,
@@ -133,7 +171,14 @@ export class QualityManager {
       scores.push(score.total);
 
       // 古いドキュメントを検出
-      if (score.freshness < 50) {
+      if (doc.metadata.needs_review) {
+        issues.push({
+          docId: doc.metadata.id,
+          type: 'stale',
+          severity: 'high',
+          message: `Document needs review: ${doc.metadata.stale_reason ?? 'related files changed'}`,
+        });
+      } else if (score.freshness < 50) {
         issues.push({
           docId: doc.metadata.id,
           type: 'stale',
@@ -187,12 +232,13 @@ export class QualityManager {
 
   /**
    * ドキュメントの品質スコアを計算
-   * 鮮度、完全性、参照回数に基づく
+   * 鮮度（最終更新からの日数）と完全性に基づく
    */
   calculateQualityScore(doc: Document): QualityScores {
-    // 鮮度スコア（日数ベース）
+    // 鮮度スコア（最終更新からの日数ベース）
     const ageInDays =
-      (Date.now() - new Date(doc.metadata.created).getTime()) / (1000 * 60 * 60 * 24);
+      (Date.now() - new Date(doc.metadata.updated || doc.metadata.created).getTime()) /
+      (1000 * 60 * 60 * 24);
     const freshness = Math.max(0, 100 - ageInDays);
 
     // 完全性スコア（メタデータの充実度ベース）
@@ -207,13 +253,10 @@ export class QualityManager {
       completeness += 30;
     }
 
-    // 参照回数（プレースホルダー実装）
-    const references = doc.metadata.reference_count || 0;
-
-    // 総合スコア（重み付き平均）
-    const total = freshness * 0.4 + completeness * 0.4 + references * 0.2;
+    // 総合スコア（平均）
+    const total = (freshness + completeness) / 2;
 
-    return { freshness, completeness, references, total };
+    return { freshness, completeness, total };
   }
 
   /**
@@ -256,12 +299,15 @@ export class QualityManager {
 
   /**
    * 古い情報を検出
-   * 指定された閾値より古いドキュメントを返す
+   * 指定された閾値より古いドキュメントと、関連ファイルの変更で要見直しになったドキュメントを返す
    */
   detectStaleInfo(docs: Document[], daysThreshold: number): Document[] {
     const threshold = Date.now() - daysThreshold * 24 * 60 * 60 * 1000;
 
-    const staleDocs = docs.filter((doc) => new Date(doc.metadata.created).getTime() < threshold);
+    const staleDocs = docs.filter(
+      (doc) =>
+        doc.metadata.needs_review === true || new Date(doc.metadata.created).getTime() < threshold
+    );
 
     this.logger.debug('Stale info detection completed', {
       totalDocs: docs.length,
@@ -272,6 +318,146 @@ export class QualityManager {
     return staleDocs;
   }
 
+  /**
+   * 関連ファイルの変更をドキュメントに反映
+   * - 更新後に変更・リネーム・削除された場合は要見直しとしてマーク
+   *   （マーク済みのドキュメントは再判定しない。manage_documents の mark_reviewed で
+   *   解除すると関連ファイルの内容を記録し直すため、それ以降の変更のみが対象になる）
+   * - リネームされたパスは現在のパスに書き換え、以前のパスを別名として残す
+   * 1つのドキュメントへの反映は1回の書き込みで行う
+   * 固定・保護されたドキュメントはリネームのみ反映し、要見直しにしなかったものを skipped として返す
+   */
+  async syncRelatedFiles(): Promise<RelatedFileSyncResult> {
+    const docs = await this.documentManager.getAllDocuments();
+    const detected = await this.relatedFileTracker.detectChanges(docs);
+    const result: RelatedFileSyncResult = { flagged: [], renamed: [], skipped: [] };
+
+    for (const { doc, changes, renames } of detected) {
+      const needsReview = changes.length > 0 && doc.metadata.needs_review !== true;
+      const isProtected = this.documentManager.isProtected(doc);
+      if (needsReview && isProtected) {
+        result.skipped.push({ doc, reason: this.formatStaleReason(changes) });
+      }
+
+      const flag = needsReview && !isProtected;
+      if (!flag && renames.length === 0) continue;
+
+      const staleReason = flag ? this.formatStaleReason(changes) : undefined;
+      const updates: Partial<DocumentMetadata> = {
+        ...(staleReason && { needs_review: true, stale_reason: staleReason }),
+        ...(renames.length > 0 && this.applyRenames(doc, renames)),
+      };
+      const context: ChangeContext =
+        renames.length > 0
+          ? {
+              actor: 'system',
+              action: 'related_files_renamed',
+              reason: 'Related files were renamed or moved',
+              details: {
+                renames: renames.map(({ from, to, renamedAt }) => ({
+                  from,
+                  to,
+                  renamed_at: renamedAt,
+                })),
+              },
+            }
+          : {
+              actor: 'system',
+              action: 'flagged_for_review',
+              ...(staleReason && { reason: staleReason }),
+            };
+
+      try {
+        const updated = await this.documentManager.updateDocument(
+          doc.metadata.id,
+          updates,
+          context
+        );
+
+        if (flag) {
+          result.flagged.push(updated);
+        }
+        if (renames.length > 0) {
+          result.renamed.push(updated);
+          await this.auditLogger?.log({
+            timestamp: new Date().toISOString(),
+            action: 'related_files_renamed',
+            actor: 'system',
+            details: {
+              doc_id: doc.metadata.id,
+              renames: renames.map(({ from, to }) => ({ from, to })),
+            },
+            impact: 'low',
+          });
+        }
+      } catch (error) {
+        this.logger.warn('Failed to sync related files', { id: doc.metadata.id, error });
+      }
+    }
+
+    if (result.flagged.length > 0 || result.renamed.length > 0) {
+      this.logger.info('Related files synced', {
+        flagged: result.flagged.map((doc) => doc.metadata.id),
+        renamed: result.renamed.map((doc) => doc.metadata.id),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * リネームをrelated_filesに適用し、以前のパスを別名として記録
+   * 記録時点のハッシュは現在のパスに付け替える
+   * プライベートヘルパーメソッド
+   */
+  private applyRenames(
+    doc: Document,
+    renames: RelatedFileRename[]
+  ): Pick<DocumentMetadata, 'related_files' | 'related_file_aliases' | 'related_file_hashes'> {
+    const renameMap = new Map(renames.map((rename) => [rename.from, rename.to]));
+    const aliases: Record<string, string[]> = { ...(doc.metadata.related_file_aliases ?? {}) };
+
+    for (const { from, to } of renames) {
+      aliases[to] = Array.from(new Set([...(aliases[to] ?? []), from, ...(aliases[from] ?? [])]));
+      delete aliases[from];
+    }
+
+    return {
+      related_files: Array.from(
+        new Set(doc.metadata.related_files.map((file) => renameMap.get(file) ?? file))
+      ),
+      related_file_aliases: aliases,
+      ...(doc.metadata.related_file_hashes && {
+        related_file_hashes: Object.fromEntries(
+          Object.entries(doc.metadata.related_file_hashes).map(([file, hash]) => [
+            renameMap.get(file) ?? file,
+            hash,
+          ])
+        ),
+      }),
+    };
+  }
+
+  /**
+   * 関連ファイルの変更内容から要見直しの理由を作成
+   * プライベートヘルパーメソッド
+   */
+  private formatStaleReason(changes: RelatedFileChange[]): string {
+    const details = changes.map((change) => {
+      const date = change.changedAt.split('T')[0];
+      switch (change.type) {
+        case 'renamed':
+          return `${change.file} renamed to ${change.renamedTo ?? '?'} (${date})`;
+        case 'deleted':
+          return `${change.file} deleted (${date})`;
+        default:
+          return `${change.file} modified (${date})`;
+      }
+    });
+
+    return `Related files changed after last update: ${details.join(', ')}`;
+  }
+
   /**
    * ドキュメントからプレビューコンテンツを作成
    * プライベートヘルパーメソッド
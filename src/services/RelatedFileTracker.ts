@@ -0,0 +1,260 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Document } from '../models/Document.js';
+import {
+  getChangedFiles,
+  getCommittedBlobHashes,
+  getCommittedFileChanges,
+  getUncommittedRenames,
+  hashWorkingTreeFiles,
+  isGitRepository,
+  type GitFileChange,
+} from '../utils/gitUtils.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * 関連ファイルの変更種別
+ */
+export type RelatedFileChangeType = 'modified' | 'renamed' | 'deleted';
+
+/**
+ * ドキュメント更新後に発生した関連ファイルの変更
+ */
+export interface RelatedFileChange {
+  file: string; // related_filesに記録されたパス
+  type: RelatedFileChangeType;
+  renamedTo?: string; // リネームの場合の現在のパス
+  changedAt: string; // 変更日時（ISO 8601形式）
+}
+
+/**
+ * related_filesに記録されたパスのリネーム（記録後のリネームをすべて含む）
+ */
+export interface RelatedFileRename {
+  from: string; // related_filesに記録されたパス
+  to: string; // 現在のパス
+  renamedAt: string; // 最後にリネームされた日時（ISO 8601形式）
+}
+
+/**
+ * 関連ファイルが変更されたドキュメント
+ */
+export interface RelatedFileChangeResult {
+  doc: Document;
+  changes: RelatedFileChange[]; // updated以降の変更
+  renames: RelatedFileRename[]; // created以降のリネームのうち、現在のパスに書き換えるべきもの
+}
+
+/**
+ * 関連ファイルトラッカークラス
+ * ドキュメントのupdated以降に related_files が変更・リネーム・削除されたかを
+ * Gitのコミット履歴と作業ツリーの状態から判定する
+ * 記録時点のハッシュ（related_file_hashes）と内容が同じ場合は、コミットされていても変更として扱わない
+ * あわせて、記録後にリネームされたパスの現在のパスを求める
+ */
+export class RelatedFileTracker {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger('RelatedFileTracker');
+  }
+
+  /**
+   * 関連ファイルが更新後に変更されたドキュメントを検出
+   * @param docs - 対象ドキュメント
+   * @returns 変更があったドキュメントと変更内容
+   */
+  async detectChanges(docs: Document[]): Promise<RelatedFileChangeResult[]> {
+    const targets = docs.filter((doc) => (doc.metadata.related_files ?? []).length > 0);
+    if (targets.length === 0) return [];
+
+    const useGit = isGitRepository();
+    // コミット済みの変更に、git mvなどでインデックスに登録済みのリネームを加える
+    const history = useGit
+      ? [...this.getCommittedChanges(targets), ...getUncommittedRenames()]
+      : [];
+    // 作業ツリーで変更中・未追跡のファイルのみmtimeで判定（クローン直後のmtimeは当てにならない）
+    const dirty = useGit ? new Set(getChangedFiles().map((file) => file.path)) : null;
+    // 記録時点のハッシュと比較するため、コミット済みの内容のハッシュを取得
+    const committedHashes = useGit
+      ? getCommittedBlobHashes(
+          Array.from(
+            new Set(targets.flatMap((doc) => Object.keys(doc.metadata.related_file_hashes ?? {})))
+          )
+        )
+      : new Map<string, string>();
+
+    const results: RelatedFileChangeResult[] = [];
+
+    for (const doc of targets) {
+      const createdAt = new Date(doc.metadata.created).getTime();
+      const updatedAt = new Date(doc.metadata.updated || doc.metadata.created).getTime();
+      const sinceCreated = history.filter((change) => Date.parse(change.timestamp) > createdAt);
+      const sinceUpdated = sinceCreated.filter(
+        (change) => Date.parse(change.timestamp) > updatedAt
+      );
+      const changes: RelatedFileChange[] = [];
+      const renames: RelatedFileRename[] = [];
+
+      for (const file of doc.metadata.related_files) {
+        const recordedHash = doc.metadata.related_file_hashes?.[file];
+        const change =
+          this.findCommittedChange(file, sinceUpdated, recordedHash, committedHashes.get(file)) ??
+          (await this.findWorkingTreeChange(file, updatedAt, dirty, recordedHash));
+
+        if (change) {
+          changes.push(change);
+        }
+
+        const rename = await this.resolveRename(file, sinceCreated);
+        if (rename) {
+          renames.push(rename);
+        }
+      }
+
+      if (changes.length > 0 || renames.length > 0) {
+        results.push({ doc, changes, renames });
+      }
+    }
+
+    this.logger.debug('Related file change detection completed', {
+      checkedDocs: targets.length,
+      changedDocs: results.length,
+      renamedDocs: results.filter((result) => result.renames.length > 0).length,
+      source: useGit ? 'git' : 'filesystem',
+    });
+
+    return results;
+  }
+
+  /**
+   * 最も古いドキュメントの作成以降のコミット履歴を取得
+   */
+  private getCommittedChanges(docs: Document[]): GitFileChange[] {
+    const oldest = Math.min(...docs.map((doc) => new Date(doc.metadata.created).getTime()));
+    if (!Number.isFinite(oldest)) return [];
+
+    return getCommittedFileChanges(new Date(oldest).toISOString()) ?? [];
+  }
+
+  /**
+   * コミット履歴からファイルの変更を判定
+   * リネームは連鎖をたどって現在のパスを求める
+   * 記録されたパスへのリネーム（リネーム後に記録し直した場合など）は変更として扱わない
+   * 変更後の内容が記録時点と同じ場合（記録した変更をコミットしただけの場合など）は対象外
+   * @param recordedHash - 記録時点のブロブハッシュ
+   * @param committedHash - HEADのブロブハッシュ（HEADにないパスは作業ツリーの内容と比較する）
+   */
+  private findCommittedChange(
+    file: string,
+    changes: GitFileChange[],
+    recordedHash?: string,
+    committedHash?: string
+  ): RelatedFileChange | null {
+    let current = file;
+    let renamed = false;
+    let last: GitFileChange | null = null;
+
+    for (const change of changes) {
+      if (change.status === 'R' && change.oldPath === current) {
+        current = change.path;
+        renamed = true;
+        last = change;
+      } else if (change.path === current && !(change.status === 'R' && current === file)) {
+        last = change;
+      }
+    }
+
+    if (!last) return null;
+
+    if (renamed && last.status !== 'D') {
+      return { file, type: 'renamed', renamedTo: current, changedAt: last.timestamp };
+    }
+
+    if (last.status !== 'D' && recordedHash !== undefined) {
+      const currentHash = committedHash ?? hashWorkingTreeFiles([file])[file];
+      if (recordedHash === currentHash) return null;
+    }
+
+    return {
+      file,
+      type: last.status === 'D' ? 'deleted' : 'modified',
+      changedAt: last.timestamp,
+    };
+  }
+
+  /**
+   * リネームの連鎖をたどって記録されたパスの現在のパスを求める
+   * 記録されたパスが存在せず、リネーム先が存在する場合のみ書き換え対象とする
+   * （同じパスに別のファイルが作り直された場合や、リネーム先も削除された場合は対象外）
+   */
+  private async resolveRename(
+    file: string,
+    changes: GitFileChange[]
+  ): Promise<RelatedFileRename | null> {
+    let current = file;
+    let renamedAt: string | null = null;
+
+    for (const change of changes) {
+      if (change.status === 'R' && change.oldPath === current) {
+        current = change.path;
+        renamedAt = change.timestamp;
+      }
+    }
+
+    if (renamedAt === null || current === file) return null;
+    if ((await this.exists(file)) || !(await this.exists(current))) return null;
+
+    return { from: file, to: current, renamedAt };
+  }
+
+  /**
+   * カレントディレクトリからの相対パスのファイルが存在するか判定
+   */
+  private async exists(file: string): Promise<boolean> {
+    try {
+      await fs.access(path.resolve(process.cwd(), file));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 作業ツリーの状態からファイルの変更を判定
+   * @param dirty - Git管理下で変更中のファイル（Git管理外の場合はnull）
+   * @param recordedHash - 記録時点のブロブハッシュ（内容が同じ場合は対象外）
+   */
+  private async findWorkingTreeChange(
+    file: string,
+    updatedAt: number,
+    dirty: Set<string> | null,
+    recordedHash?: string
+  ): Promise<RelatedFileChange | null> {
+    try {
+      const stat = await fs.stat(path.resolve(process.cwd(), file));
+
+      if ((dirty === null || dirty.has(file)) && stat.mtimeMs > updatedAt) {
+        if (dirty !== null && recordedHash !== undefined) {
+          if (hashWorkingTreeFiles([file])[file] === recordedHash) return null;
+        }
+        return { file, type: 'modified', changedAt: stat.mtime.toISOString() };
+      }
+
+      return null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.debug('Failed to stat related file', { file, error });
+        return null;
+      }
+
+      // 記録前にコミット済みの削除は対象外（削除を記録したドキュメントなど）
+      if (dirty !== null && !dirty.has(file)) {
+        return null;
+      }
+
+      // 削除日時は分からないため検出時刻を記録する
+      return { file, type: 'deleted', changedAt: new Date().toISOString() };
+    }
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * 保持ポリシーサービス
+ * 経過日数・品質スコア・参照の有無・最大ドキュメント数のルールでアーカイブするドキュメントを選び、
+ * 固定（pinned）・保護（protected）・マージレビュー済みのドキュメントは対象から外す
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DocumentManager } from './DocumentManager.js';
+import { ConfigManager } from './ConfigManager.js';
+import type { AuditLogger } from './AuditLogger.js';
+import type { QualityManager } from './QualityManager.js';
+import type { Document } from '../models/Document.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * アーカイブの理由になるルール
+ * - age: 最終更新（updated）から autoArchiveDays 日以上経過
+ * - low_quality: 品質スコアが minQualityScore 未満
+ * - unreferenced: 関連ファイルがすべて存在しない
+ * - count_cap: アクティブなドキュメント数が maxDocuments を超えた分（品質スコアの低い順）
+ */
+export type RetentionRule = 'age' | 'low_quality' | 'unreferenced' | 'count_cap';
+
+/**
+ * 保持ポリシーから保護される理由
+ */
+export type RetentionProtection = 'pinned' | 'protected' | 'merge_reviewed';
+
+/**
+ * ルールに該当したドキュメント
+ */
+export interface RetentionCandidate {
+  docId: string;
+  summary: string;
+  rules: RetentionRule[];
+  qualityScore: number;
+}
+
+/**
+ * ルールに該当したが保護されたドキュメント
+ */
+export interface ProtectedDocument extends RetentionCandidate {
+  protection: RetentionProtection;
+}
+
+/**
+ * 保持ポリシーの適用オプション
+ */
+export interface RetentionOptions {
+  /** アーカイブせずに対象のみ報告する */
+  dryRun?: boolean;
+  /** 実行者（change_logと監査ログに記録、デフォルト: system） */
+  actor?: string;
+}
+
+/**
+ * 保持ポリシーの適用結果
+ */
+export interface RetentionReport {
+  dryRun: boolean;
+  evaluated: number; // 評価したアクティブなドキュメント数
+  maxDocuments: number;
+  remaining: number; // 適用後のアクティブなドキュメント数
+  archived: RetentionCandidate[]; // アーカイブした（dryRunではアーカイブする）ドキュメント
+  protected: ProtectedDocument[];
+  failed: Array<{ docId: string; error: string }>;
+}
+
+/**
+ * ルールの説明（レポート用）
+ */
+const RULE_LABELS: Record<RetentionRule, string> = {
+  age: '経過日数',
+  low_quality: '低品質',
+  unreferenced: '関連ファイルなし',
+  count_cap: '最大数超過',
+};
+
+/**
+ * 保護の説明（レポート用）
+ */
+const PROTECTION_LABELS: Record<RetentionProtection, string> = {
+  pinned: '固定',
+  protected: '保護',
+  merge_reviewed: 'マージレビュー済み',
+};
+
+/**
+ * 保持ポリシークラス
+ * documentManager の autoArchiveDays・maxDocuments・minQualityScore・archiveUnreferenced に従って
+ * 古い・低品質・参照されていないドキュメントをアーカイブする
+ */
+export class RetentionPolicy {
+  private documentManager: DocumentManager;
+  private qualityManager: QualityManager;
+  private auditLogger: AuditLogger | undefined;
+  private config: ConfigManager;
+  private logger: Logger;
+
+  constructor(
+    documentManager: DocumentManager,
+    qualityManager: QualityManager,
+    auditLogger?: AuditLogger
+  ) {
+    this.documentManager = documentManager;
+    this.qualityManager = qualityManager;
+    this.auditLogger = auditLogger;
+    this.config = ConfigManager.getInstance();
+    this.logger = new Logger('RetentionPolicy');
+  }
+
+  /**
+   * 保持ポリシーを適用
+   * 結果は dryRun の場合も監査ログに記録する
+   * @param options - 適用オプション
+   * @returns 適用結果
+   */
+  async apply(options: RetentionOptions = {}): Promise<RetentionReport> {
+    const { dryRun = false, actor = 'system' } = options;
+    const { maxDocuments } = this.config.get('documentManager');
+
+    const report = await this.documentManager.withLock('retention', async () => {
+      const docs = await this.documentManager.getAllDocuments();
+      const { candidates, protectedDocs } = await this.evaluate(docs, maxDocuments);
+
+      const result: RetentionReport = {
+        dryRun,
+        evaluated: docs.length,
+        maxDocuments,
+        remaining: docs.length - candidates.length,
+        archived: candidates,
+        protected: protectedDocs,
+        failed: [],
+      };
+      if (dryRun) return result;
+
+      for (const candidate of candidates) {
+        try {
+          await this.documentManager.archiveDocument(candidate.docId, {
+            actor,
+            reason: `Retention policy: ${candidate.rules.join(', ')}`,
+            details: {
+              retention_rules: candidate.rules,
+              quality_score: Math.round(candidate.qualityScore * 10) / 10,
+            },
+          });
+        } catch (error) {
+          this.logger.warn('Failed to archive document by retention policy', {
+            id: candidate.docId,
+            error,
+          });
+          result.failed.push({
+            docId: candidate.docId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      const failedIds = new Set(result.failed.map((f) => f.docId));
+      result.archived = candidates.filter((c) => !failedIds.has(c.docId));
+      result.remaining = docs.length - result.archived.length;
+
+      return result;
+    });
+
+    await this.auditLogger?.log({
+      timestamp: new Date().toISOString(),
+      action: 'retention_applied',
+      actor,
+      details: {
+        dry_run: dryRun,
+        evaluated: report.evaluated,
+        remaining: report.remaining,
+        max_documents: report.maxDocuments,
+        archived: report.archived.map((c) => ({ doc_id: c.docId, rules: c.rules })),
+        protected: report.protected.map((p) => ({
+          doc_id: p.docId,
+          rules: p.rules,
+          protection: p.protection,
+        })),
+        failed: report.failed,
+      },
+      impact: !dryRun && report.archived.length > 0 ? 'medium' : 'low',
+    });
+
+    this.logger.info('Retention policy applied', {
+      dryRun,
+      evaluated: report.evaluated,
+      archived: report.archived.length,
+      protected: report.protected.length,
+      failed: report.failed.length,
+    });
+
+    return report;
+  }
+
+  /**
+   * 適用結果をMarkdown形式のレポートにする
+   */
+  formatReport(report: RetentionReport): string {
+    const archivedLabel = report.dryRun ? 'アーカイブ対象' : 'アーカイブしたドキュメント';
+
+    let text = `# 保持ポリシーの適用結果${report.dryRun ? '（ドライラン）' : ''}\n\n`;
+    text += `- 評価したドキュメント: ${report.evaluated}件\n`;
+    text += `- ${archivedLabel}: ${report.archived.length}件\n`;
+    text += `- 保護されたドキュメント: ${report.protected.length}件\n`;
+    text += `- 適用後のドキュメント数: ${report.remaining}件（上限 ${report.maxDocuments}件）\n`;
+
+    if (report.archived.length > 0) {
+      text += `\n## ${archivedLabel}\n\n`;
+      for (const candidate of report.archived) {
+        text += `- ${candidate.summary} (ID: ${candidate.docId})\n`;
+        text += `  ルール: ${this.formatRules(candidate.rules)} / 品質スコア: ${candidate.qualityScore.toFixed(1)}\n`;
+      }
+    }
+
+    if (report.protected.length > 0) {
+      text += `\n## 保護されたドキュメント\n\n`;
+      for (const doc of report.protected) {
+        text += `- ${doc.summary} (ID: ${doc.docId}) - ${PROTECTION_LABELS[doc.protection]}\n`;
+        text += `  該当したルール: ${this.formatRules(doc.rules)}\n`;
+      }
+    }
+
+    if (report.failed.length > 0) {
+      text += `\n## アーカイブに失敗したドキュメント\n\n`;
+      for (const { docId, error } of report.failed) {
+        text += `- ${docId}: ${error}\n`;
+      }
+    }
+
+    if (report.remaining > report.maxDocuments) {
+      text += `\n⚠️ 保護されたドキュメントが多いため、ドキュメント数が上限を超えています。\n`;
+    }
+
+    if (report.dryRun && report.archived.length > 0) {
+      text += `\nアーカイブするには dryRun を無効にして再実行してください。\n`;
+    }
+
+    return text;
+  }
+
+  /**
+   * アクティブなドキュメントにルールを適用し、アーカイブ対象と保護されたドキュメントに分ける
+   */
+  private async evaluate(
+    docs: Document[],
+    maxDocuments: number
+  ): Promise<{ candidates: RetentionCandidate[]; protectedDocs: ProtectedDocument[] }> {
+    const candidates: RetentionCandidate[] = [];
+    const protectedDocs: ProtectedDocument[] = [];
+    const kept: Array<{ doc: Document; qualityScore: number }> = [];
+
+    for (const doc of docs) {
+      const qualityScore = this.qualityManager.calculateQualityScore(doc).total;
+      const rules = await this.matchRules(doc, qualityScore);
+      const protection = this.getProtection(doc);
+
+      if (rules.length === 0) {
+        kept.push({ doc, qualityScore });
+      } else if (protection) {
+        protectedDocs.push({ ...this.toCandidate(doc, rules, qualityScore), protection });
+        kept.push({ doc, qualityScore });
+      } else {
+        candidates.push(this.toCandidate(doc, rules, qualityScore));
+      }
+    }
+
+    // 上限を超えた分は保護されていないドキュメントから品質スコアの低い順（同点は古い順）に選ぶ
+    const excess = maxDocuments > 0 ? kept.length - maxDocuments : 0;
+    if (excess > 0) {
+      const overflow = kept
+        .filter(({ doc }) => !this.getProtection(doc))
+        .sort(
+          (a, b) =>
+            a.qualityScore - b.qualityScore ||
+            new Date(a.doc.metadata.created).getTime() - new Date(b.doc.metadata.created).getTime()
+        )
+        .slice(0, excess);
+
+      for (const { doc, qualityScore } of overflow) {
+        candidates.push(this.toCandidate(doc, ['count_cap'], qualityScore));
+      }
+    }
+
+    return { candidates, protectedDocs };
+  }
+
+  /**
+   * ドキュメントが該当するルール（最大数超過を除く）を判定
+   */
+  private async matchRules(doc: Document, qualityScore: number): Promise<RetentionRule[]> {
+    const { autoArchiveDays, minQualityScore, archiveUnreferenced } =
+      this.config.get('documentManager');
+    const rules: RetentionRule[] = [];
+
+    // 更新されたドキュメントは現役として扱うため、作成日時ではなく最終更新日時からの経過日数で判定
+    const ageInDays =
+      (Date.now() - new Date(doc.metadata.updated || doc.metadata.created).getTime()) /
+      (1000 * 60 * 60 * 24);
+    if (autoArchiveDays > 0 && ageInDays >= autoArchiveDays) {
+      rules.push('age');
+    }
+
+    if (minQualityScore > 0 && qualityScore < minQualityScore) {
+      rules.push('low_quality');
+    }
+
+    if (archiveUnreferenced && (await this.isUnreferenced(doc))) {
+      rules.push('unreferenced');
+    }
+
+    return rules;
+  }
+
+  /**
+   * 関連ファイルがすべて存在しないか判定
+   * 関連ファイルのないドキュメントは判定できないため対象外
+   */
+  private async isUnreferenced(doc: Document): Promise<boolean> {
+    if (doc.metadata.related_files.length === 0) {
+      return false;
+    }
+
+    for (const file of doc.metadata.related_files) {
+      try {
+        await fs.access(path.resolve(process.cwd(), file));
+        return false;
+      } catch {
+        // 存在しない関連ファイル
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * 保持ポリシーから保護されるドキュメントか判定
+   */
+  private getProtection(doc: Document): RetentionProtection | null {
+    if (doc.metadata.pinned) return 'pinned';
+    if (doc.metadata.protected) return 'protected';
+    if (doc.metadata.merge_reviewed) return 'merge_reviewed';
+    return null;
+  }
+
+  private toCandidate(
+    doc: Document,
+    rules: RetentionRule[],
+    qualityScore: number
+  ): RetentionCandidate {
+    return { docId: doc.metadata.id, summary: doc.metadata.summary, rules, qualityScore };
+  }
+
+  private formatRules(rules: RetentionRule[]): string {
+    return rules.map((rule) => RULE_LABELS[rule]).join('、');
+  }
+}
@@ -0,0 +1,151 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { writeFileAtomic } from '../utils/fileSystem.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * 保存されたリビジョンのファイル
+ */
+export interface RevisionFile {
+  revision: number; // 1から始まる連番（古い順）
+  file_path: string;
+  saved: string; // 保存日時（ISO 8601形式）
+}
+
+/**
+ * リビジョン番号のファイル名の桁数
+ */
+const REVISION_DIGITS = 6;
+
+/**
+ * リビジョンストアクラス
+ * ドキュメントを書き換える直前のファイルを .claude/docs/.revisions/<id>/ に連番で保存し、
+ * 以前の版の参照・比較・復元に使えるようにする
+ */
+export class RevisionStore {
+  private revisionsDir: string;
+  private logger: Logger;
+
+  constructor(docsDir?: string) {
+    this.revisionsDir = path.join(
+      docsDir ?? path.join(process.cwd(), '.claude/docs'),
+      '.revisions'
+    );
+    this.logger = new Logger('RevisionStore');
+  }
+
+  /**
+   * 現在のファイル内容を次のリビジョンとして保存
+   * @param id - ドキュメントID
+   * @param filePath - 書き換える前のドキュメントファイル
+   * @returns 保存したリビジョン番号。ファイルが存在しない（新規作成）場合はnull
+   */
+  async save(id: string, filePath: string): Promise<number | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const revisions = await this.list(id);
+    const revision = (revisions.at(-1)?.revision ?? 0) + 1;
+
+    await fs.mkdir(this.documentDir(id), { recursive: true });
+    await writeFileAtomic(this.revisionPath(id, revision), content);
+    this.logger.debug('Revision saved', { id, revision });
+
+    return revision;
+  }
+
+  /**
+   * ドキュメントのリビジョンを取得（古い順）
+   */
+  async list(id: string): Promise<RevisionFile[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.documentDir(id));
+    } catch {
+      return [];
+    }
+
+    const revisions: RevisionFile[] = [];
+
+    for (const file of files) {
+      const match = /^(\d+)\.md$/.exec(file);
+      if (!match) continue;
+
+      const filePath = path.join(this.documentDir(id), file);
+      const stat = await fs.stat(filePath);
+      revisions.push({
+        revision: Number(match[1]),
+        file_path: filePath,
+        saved: stat.mtime.toISOString(),
+      });
+    }
+
+    return revisions.sort((a, b) => a.revision - b.revision);
+  }
+
+  /**
+   * リビジョンのファイルパスを取得
+   * @returns 存在しない場合はnull
+   */
+  async resolve(id: string, revision: number): Promise<string | null> {
+    const filePath = this.revisionPath(id, revision);
+    try {
+      await fs.access(filePath);
+      return filePath;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * ドキュメントの全リビジョンを書き換える
+   * 機密データをマスクした際に、以前の版に残った値も取り除くために使用する
+   * 保存日時（ファイルの更新時刻）は書き換え前のまま保つ
+   * @param transform - ファイル内容の変換
+   * @returns 内容が変わったリビジョン数
+   */
+  async rewrite(id: string, transform: (content: string) => string): Promise<number> {
+    let count = 0;
+
+    for (const { revision, file_path, saved } of await this.list(id)) {
+      const content = await fs.readFile(file_path, 'utf-8');
+      const rewritten = transform(content);
+      if (rewritten === content) continue;
+
+      await writeFileAtomic(file_path, rewritten);
+      // 保存日時はファイルの更新時刻で表すため、書き換え前の日時に戻す
+      const savedAt = new Date(saved);
+      await fs.utimes(file_path, savedAt, savedAt);
+      this.logger.debug('Revision rewritten', { id, revision });
+      count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * ドキュメントの全リビジョンを削除
+   */
+  async remove(id: string): Promise<void> {
+    await fs.rm(this.documentDir(id), { recursive: true, force: true });
+  }
+
+  /**
+   * ドキュメントのリビジョンディレクトリ
+   */
+  private documentDir(id: string): string {
+    return path.join(this.revisionsDir, id);
+  }
+
+  /**
+   * リビジョンのファイルパス
+   */
+  private revisionPath(id: string, revision: number): string {
+    return path.join(this.documentDir(id), `${String(revision).padStart(REVISION_DIGITS, '0')}.md`);
+  }
+}
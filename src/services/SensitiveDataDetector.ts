@@ -1,32 +1,125 @@
 import * as fs from 'fs/promises';
 import { Logger } from '../utils/logger.js';
-
-/**
- * 機密データパターン定義のインターフェース
- */
-interface SensitivePattern {
-  name: string;
-  regex: RegExp;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-}
+import { shannonEntropy, detectCharset } from '../utils/entropy.js';
+import type { EntropyCharset } from '../utils/entropy.js';
+import {
+  BUILTIN_RULES,
+  RULE_PACK_VERSION,
+  applyRule,
+  matchRule,
+  verifyRules,
+} from './SensitiveRulePack.js';
+import type {
+  SensitiveRule,
+  SensitiveSeverity,
+  SensitiveCategory,
+  RuleFixtureFailure,
+} from './SensitiveRulePack.js';
 
 /**
  * 検出された機密データのインターフェース
  */
-interface DetectedSensitiveData {
+export interface DetectedSensitiveData {
   pattern: string;
+  category: SensitiveCategory;
   matches: string[];
   severity: string;
   locations: number[]; // Character positions
 }
 
+/**
+ * 検出・マスクのオプション
+ */
+export interface SensitiveScanOptions {
+  /** 対象カテゴリ（省略時はsecretのみ） */
+  categories?: SensitiveCategory[];
+  /** 対象外とする値（作成者のメールアドレスなど。大文字小文字を区別しない） */
+  exempt?: string[];
+}
+
+/**
+ * エントロピー検出の設定
+ */
+interface EntropyOptions {
+  enabled: boolean;
+  /** キーワードがない場合の最小文字数 */
+  minLength: number;
+  /** キーワードが近くにある場合の最小文字数 */
+  contextMinLength: number;
+  /** 文字種ごとのエントロピー閾値（ビット/文字） */
+  thresholds: Record<EntropyCharset, number>;
+  /** 直前にあると確度を上げるキーワード */
+  keywords: string[];
+}
+
+/**
+ * エントロピー検出で見つかった文字列
+ */
+interface EntropyMatch {
+  value: string;
+  index: number;
+  charset: EntropyCharset;
+  hasContext: boolean;
+}
+
+const DEFAULT_ENTROPY_OPTIONS: EntropyOptions = {
+  enabled: true,
+  minLength: 20,
+  contextMinLength: 12,
+  thresholds: { base64: 4.3, hex: 3.0 },
+  keywords: ['token', 'password', 'passwd', 'secret', 'api_key', 'apikey', 'credential', 'auth'],
+};
+
+/**
+ * キーワードがある場合に閾値から差し引く値
+ */
+const CONTEXT_THRESHOLD_BONUS = 0.8;
+
+/**
+ * キーワードを探す直前の文字数
+ */
+const CONTEXT_WINDOW = 40;
+
+/**
+ * エントロピー検出の候補となる文字列（base64/base64url/hex）
+ * パスを1つの候補にしないよう `/` で区切る。SRIハッシュは既知の形式として除外するため丸ごと候補にする
+ */
+const ENTROPY_CANDIDATE_REGEX = /sha(?:256|384|512)-[A-Za-z0-9+/]+={0,2}|[A-Za-z0-9+_-]+={0,2}/g;
+
+/**
+ * 秘密情報ではない既知の形式（キーワードが直前にない場合のみ除外）
+ */
+const KNOWN_NON_SECRET_FORMATS: RegExp[] = [
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, // UUID
+  /^[0-9a-f]{40}$/i, // git SHA-1
+  /^[0-9a-f]{64}$/i, // SHA-256
+  /^sha(?:256|384|512)-[A-Za-z0-9+/]+={0,2}$/, // SRI（package-lock.jsonのintegrityなど）
+  /^\d{4}-\d{2}-\d{2}_[0-9a-f]{8}_[a-z0-9-]*$/, // ドキュメントのファイル名（DocumentManager.generateFileName）
+];
+
+/**
+ * camelCase・PascalCaseの識別子を構成する語（英単語・略語・数字）
+ */
+const IDENTIFIER_TOKEN_REGEX = /[A-Z]?[a-z]+|[A-Z]+(?![a-z])|\d+/g;
+
+/**
+ * 自前で生成するハッシュの接頭辞（MetadataExtractor.generatePromptHashの形式）
+ */
+const OWN_HASH_PREFIX = 'sha256:';
+
 /**
  * 機密データ検出クラス
  * コンテンツ内の機密情報を検出しマスク
  */
 export class SensitiveDataDetector {
-  private patterns: SensitivePattern[] = [];
+  private patterns: SensitiveRule[] = [];
+  /** sensitive-patterns.jsonで指定されたルールの有効/無効 */
+  private ruleToggles: Map<string, boolean> = new Map();
   private whitelist: Set<string> = new Set();
+  private entropyOptions: EntropyOptions = {
+    ...DEFAULT_ENTROPY_OPTIONS,
+    thresholds: { ...DEFAULT_ENTROPY_OPTIONS.thresholds },
+  };
   private logger: Logger;
 
   constructor() {
@@ -35,95 +128,202 @@ export class SensitiveDataDetector {
   }
 
   /**
-   * デフォルトの検出パターンを読み込み
+   * 組み込みルールパックを読み込み
    */
   private loadDefaultPatterns(): void {
-    this.patterns = [
-      {
-        name: 'API_KEY',
-        regex: /API_KEY\s*=\s*["']([^"']+)["']/gi,
-        severity: 'high',
-      },
-      {
-        name: 'OpenAI_Key',
-        regex: /sk-[a-zA-Z0-9]{32,}/g,
-        severity: 'critical',
-      },
-      {
-        name: 'GitHub_Token',
-        regex: /ghp_[a-zA-Z0-9]{36}/g,
-        severity: 'critical',
-      },
-      {
-        name: 'AWS_Key',
-        regex: /AKIA[A-Z0-9]{16}/g,
-        severity: 'critical',
-      },
-      {
-        name: 'Generic_Secret',
-        regex: /SECRET\s*=\s*["']([^"']+)["']/gi,
-        severity: 'high',
-      },
-      {
-        name: 'Long_Random_String',
-        regex: /[a-zA-Z0-9]{64,}/g,
-        severity: 'medium',
-      },
-      {
-        name: 'Private_Key',
-        regex: /-----BEGIN\s+(RSA\s+)?PRIVATE\s+KEY-----/gi,
-        severity: 'critical',
-      },
-      {
-        name: 'JWT_Token',
-        regex: /eyJ[a-zA-Z0-9_-]+\.eyJ[a-zA-Z0-9_-]+\.[a-zA-Z0-9_-]+/g,
-        severity: 'high',
-      },
-    ];
+    this.patterns = [...BUILTIN_RULES];
+  }
+
+  /**
+   * 組み込みルールパックのバージョンを取得
+   */
+  getRulePackVersion(): string {
+    return RULE_PACK_VERSION;
+  }
+
+  /**
+   * 有効なルール名の一覧を取得
+   */
+  getActiveRuleNames(): string[] {
+    return this.getActiveRules().map((rule) => rule.name);
+  }
+
+  /**
+   * 組み込みルールのフィクスチャで自己検証
+   * @returns 失敗したフィクスチャの一覧（空なら成功）
+   */
+  static verifyBuiltinRules(): RuleFixtureFailure[] {
+    return verifyRules(BUILTIN_RULES);
   }
 
   /**
    * コンテンツ内の機密情報を検出
    * @param content - スキャンするコンテンツ
+   * @param options - 対象カテゴリと除外する値
    * @returns 検出された機密データの配列
    */
-  detect(content: string): DetectedSensitiveData[] {
+  detect(content: string, options: SensitiveScanOptions = {}): DetectedSensitiveData[] {
     const results: DetectedSensitiveData[] = [];
+    const categories = options.categories ?? ['secret'];
+    const isAllowed = this.createAllowFilter(options.exempt);
 
-    for (const pattern of this.patterns) {
-      const matches = content.match(pattern.regex);
+    // ルールを順に適用し、前のルールでマスクした箇所は後のルールで重複して数えない
+    let remaining = content;
 
-      if (matches && matches.length > 0) {
-        // ホワイトリスト項目を除外
-        const filtered = matches.filter((m) => !this.whitelist.has(m));
+    for (const rule of this.getActiveRules(categories)) {
+      // ホワイトリスト項目を除外
+      const filtered = matchRule(rule, remaining).filter((m) => !isAllowed(m));
 
-        if (filtered.length > 0) {
-          results.push({
-            pattern: pattern.name,
-            matches: filtered,
-            severity: pattern.severity,
-            locations: this.findLocations(content, filtered),
-          });
-        }
+      if (filtered.length > 0) {
+        results.push({
+          pattern: rule.name,
+          category: rule.category ?? 'secret',
+          matches: filtered,
+          severity: rule.severity,
+          locations: this.findLocations(content, filtered),
+        });
+        remaining = applyRule(rule, remaining, isAllowed);
       }
     }
 
+    if (!categories.includes('secret')) {
+      return results;
+    }
+
+    // パターンに一致した箇所を除いた残りからエントロピーの高い文字列を検出
+    const entropyGroups = new Map<string, DetectedSensitiveData>();
+    for (const match of this.findHighEntropyStrings(remaining)) {
+      const name = match.charset === 'hex' ? 'High_Entropy_Hex' : 'High_Entropy_Base64';
+      const severity = match.hasContext ? 'high' : 'medium';
+      const key = `${name}:${severity}`;
+
+      const group = entropyGroups.get(key) || {
+        pattern: name,
+        category: 'secret' as const,
+        matches: [],
+        severity,
+        locations: [],
+      };
+      group.matches.push(match.value);
+      entropyGroups.set(key, group);
+    }
+
+    for (const group of entropyGroups.values()) {
+      results.push({ ...group, locations: this.findLocations(content, group.matches) });
+    }
+
     return results;
   }
 
   /**
    * 機密情報を自動的にマスク
    * @param content - サニタイズするコンテンツ
+   * @param options - 対象カテゴリと除外する値
    * @returns 機密データがマスクされたサニタイズ済みコンテンツ
    */
-  sanitize(content: string): string {
+  sanitize(content: string, options: SensitiveScanOptions = {}): string {
+    const categories = options.categories ?? ['secret'];
+    const isAllowed = this.createAllowFilter(options.exempt);
+
     let sanitized = content;
+    for (const rule of this.getActiveRules(categories)) {
+      sanitized = applyRule(rule, sanitized, isAllowed);
+    }
+
+    if (!categories.includes('secret')) {
+      return sanitized;
+    }
+
+    // 後ろから置換して位置がずれないようにする
+    let result = sanitized;
+    for (const match of this.findHighEntropyStrings(sanitized).reverse()) {
+      result =
+        result.slice(0, match.index) +
+        '[REDACTED]' +
+        result.slice(match.index + match.value.length);
+    }
+
+    return result;
+  }
+
+  /**
+   * ホワイトリストと除外値に含まれるかを判定する関数を作成
+   * @param exempt - 呼び出しごとの除外値
+   */
+  private createAllowFilter(exempt: string[] = []): (match: string) => boolean {
+    const exemptSet = new Set(exempt.map((value) => value.toLowerCase()));
+    return (match) => this.whitelist.has(match) || exemptSet.has(match.toLowerCase());
+  }
+
+  /**
+   * 有効なルールを取得（sensitive-patterns.jsonの指定がなければルールの既定値に従う）
+   * @param categories - 対象カテゴリ（省略時はすべて）
+   */
+  private getActiveRules(categories?: SensitiveCategory[]): SensitiveRule[] {
+    return this.patterns.filter(
+      (rule) =>
+        (this.ruleToggles.get(rule.name) ?? rule.enabledByDefault) &&
+        (!categories || categories.includes(rule.category ?? 'secret'))
+    );
+  }
+
+  /**
+   * シャノンエントロピーが閾値を超える文字列を検出
+   * 直前にキーワード（token, password など）がある場合は閾値と最小文字数を下げる
+   * @param content - 対象のコンテンツ
+   * @returns 検出された文字列（出現順）
+   */
+  private findHighEntropyStrings(content: string): EntropyMatch[] {
+    const options = this.entropyOptions;
+    if (!options.enabled) return [];
+
+    const results: EntropyMatch[] = [];
+
+    for (const match of content.matchAll(ENTROPY_CANDIDATE_REGEX)) {
+      const value = match[0];
+      const index = match.index;
+
+      if (value.length < options.contextMinLength || this.whitelist.has(value)) continue;
+      if (looksLikeIdentifier(value)) continue;
+
+      const charset = detectCharset(value);
+      if (!charset) continue;
+
+      const preceding = content.slice(Math.max(0, index - CONTEXT_WINDOW), index);
+      if (preceding.endsWith(OWN_HASH_PREFIX)) continue;
+
+      const hasContext = this.hasContextKeyword(preceding);
+      if (!hasContext) {
+        if (value.length < options.minLength) continue;
+        if (KNOWN_NON_SECRET_FORMATS.some((format) => format.test(value))) continue;
+      }
+
+      const threshold = options.thresholds[charset] - (hasContext ? CONTEXT_THRESHOLD_BONUS : 0);
+      if (shannonEntropy(value) < threshold) continue;
 
-    for (const pattern of this.patterns) {
-      sanitized = sanitized.replace(pattern.regex, '[REDACTED]');
+      results.push({ value, index, charset, hasContext });
     }
 
-    return sanitized;
+    return results;
+  }
+
+  /**
+   * 直前のテキスト（同じ行のみ）に確度を上げるキーワードが単語として含まれるか判定
+   * 英数字以外（`_` を含む）を単語の区切りとし、author・authMiddleware の auth などは対象外
+   * @param preceding - 候補文字列の直前のテキスト
+   */
+  private hasContextKeyword(preceding: string): boolean {
+    const line = preceding.slice(preceding.lastIndexOf('\n') + 1).toLowerCase();
+
+    return this.entropyOptions.keywords.some((keyword) => {
+      const word = keyword.toLowerCase();
+      for (let index = line.indexOf(word); index >= 0; index = line.indexOf(word, index + 1)) {
+        const before = line[index - 1] ?? '';
+        const after = line[index + word.length] ?? '';
+        if (!/[a-z0-9]/.test(before) && !/[a-z0-9]/.test(after)) return true;
+      }
+      return false;
+    });
   }
 
   /**
@@ -131,17 +331,46 @@ export class SensitiveDataDetector {
    * @param pattern - 正規表現パターン
    * @param name - パターン名
    * @param severity - 深刻度レベル
+   * @param category - カテゴリ（デフォルト: secret）
    */
-  addCustomPattern(pattern: RegExp, name: string, severity: string): void {
-    this.patterns.push({
+  addCustomPattern(
+    pattern: RegExp,
+    name: string,
+    severity: string,
+    category: SensitiveCategory = 'secret'
+  ): void {
+    const customPattern: SensitiveRule = {
       name,
       regex: pattern,
-      severity: severity as 'low' | 'medium' | 'high' | 'critical',
-    });
+      severity: severity as SensitiveSeverity,
+      mask: 'full',
+      category,
+      enabledByDefault: true,
+    };
+
+    // 同名のパターンは置き換える（デフォルトパターンの上書きを許可）
+    const existingIndex = this.patterns.findIndex((p) => p.name === name);
+    if (existingIndex !== -1) {
+      this.patterns[existingIndex] = customPattern;
+    } else {
+      this.patterns.push(customPattern);
+    }
 
     this.logger.info('Custom pattern added', { name });
   }
 
+  /**
+   * ルールを名前で有効化・無効化
+   * @param name - ルール名
+   * @param enabled - 有効にする場合true
+   */
+  setRuleEnabled(name: string, enabled: boolean): void {
+    if (!this.patterns.some((rule) => rule.name === name)) {
+      this.logger.warn('Unknown sensitive data rule', { name });
+    }
+    this.ruleToggles.set(name, enabled);
+  }
+
   /**
    * ホワイトリストに値を追加
    * @param value - ホワイトリストに追加する値
@@ -157,15 +386,24 @@ export class SensitiveDataDetector {
   async loadCustomPatterns(configPath: string): Promise<void> {
     try {
       interface PatternConfig {
-        patterns?: Array<{ regex: string; name: string; severity: 'low' | 'medium' | 'high' }>;
+        patterns?: Array<{
+          regex: string;
+          name: string;
+          severity: 'low' | 'medium' | 'high';
+          category?: SensitiveCategory;
+        }>;
         whitelist?: string[];
+        rules?: Record<string, boolean>;
+        entropy?: Partial<Omit<EntropyOptions, 'thresholds'>> & {
+          thresholds?: Partial<Record<EntropyCharset, number>>;
+        };
       }
 
       const config = JSON.parse(await fs.readFile(configPath, 'utf-8')) as PatternConfig;
 
       if (config.patterns) {
         for (const p of config.patterns) {
-          this.addCustomPattern(new RegExp(p.regex, 'gi'), p.name, p.severity);
+          this.addCustomPattern(new RegExp(p.regex, 'gi'), p.name, p.severity, p.category);
         }
       }
 
@@ -175,8 +413,26 @@ export class SensitiveDataDetector {
         }
       }
 
+      // パターン追加後に適用し、カスタムパターンも名前で無効化できるようにする
+      if (config.rules) {
+        for (const [name, enabled] of Object.entries(config.rules)) {
+          this.setRuleEnabled(name, enabled);
+        }
+      }
+
+      if (config.entropy) {
+        const { thresholds, ...rest } = config.entropy;
+        this.entropyOptions = {
+          ...this.entropyOptions,
+          ...rest,
+          thresholds: { ...this.entropyOptions.thresholds, ...thresholds },
+        };
+      }
+
       this.logger.info('Custom patterns loaded', {
+        rulePackVersion: RULE_PACK_VERSION,
         patterns: config.patterns?.length || 0,
+        rules: config.rules || {},
         whitelist: config.whitelist?.length || 0,
       });
     } catch (error) {
@@ -203,3 +459,21 @@ export class SensitiveDataDetector {
     return locations;
   }
 }
+
+/**
+ * camelCase・PascalCaseの識別子（authMiddlewareV2Handler など）か判定
+ * 英小文字の語がすべて3文字以上で、略語・数字が短いものは識別子とみなす
+ * ランダムな文字列は1〜2文字の小文字の並びを含むためほぼ該当しない
+ */
+function looksLikeIdentifier(value: string): boolean {
+  if (!/^[A-Za-z0-9]+$/.test(value)) return false;
+
+  const tokens = value.match(IDENTIFIER_TOKEN_REGEX) ?? [];
+  const words = tokens.filter((token) => /[a-z]/.test(token));
+
+  return (
+    words.length >= 2 &&
+    words.every((word) => word.replace(/^[A-Z]/, '').length >= 3) &&
+    tokens.every((token) => /[a-z]/.test(token) || token.length <= 4)
+  );
+}
@@ -0,0 +1,346 @@
+/**
+ * 機密データ一括スキャンサービス
+ * 既存のドキュメント（アクティブ・アーカイブ）を検査し、必要に応じてマスクして書き戻す
+ */
+
+import * as path from 'path';
+import { DocumentManager } from './DocumentManager.js';
+import { VectorStore } from './VectorStore.js';
+import { SensitiveDataDetector } from './SensitiveDataDetector.js';
+import { ConfigManager } from './ConfigManager.js';
+import { AuditLogger } from './AuditLogger.js';
+import type { Document, DocumentMetadata } from '../models/Document.js';
+import type { SensitiveCategory } from './SensitiveRulePack.js';
+import { Logger } from '../utils/logger.js';
+import { appendChangeLog, diffMetadata } from '../utils/changeLog.js';
+
+/**
+ * スキャンオプション
+ */
+export interface SensitiveDataScanOptions {
+  /** 検出したドキュメントをマスクして書き戻す */
+  rewrite: boolean;
+  /** 操作の実行者（change_logと監査ログに記録） */
+  actor: string;
+  /** 書き戻しの理由（change_logに記録） */
+  reason?: string;
+}
+
+/**
+ * パターン・深刻度ごとの検出件数
+ */
+export interface ScanFinding {
+  pattern: string;
+  category: SensitiveCategory;
+  severity: string;
+  count: number;
+}
+
+/**
+ * ドキュメントごとのスキャン結果
+ */
+export interface DocumentScanResult {
+  docId: string;
+  filePath: string;
+  archived: boolean;
+  findings: ScanFinding[];
+  rewritten: boolean;
+}
+
+/**
+ * スキャン結果レポート
+ */
+export interface SensitiveDataScanReport {
+  rulePackVersion: string;
+  activeRules: string[];
+  scannedDocuments: number;
+  affectedDocuments: DocumentScanResult[];
+  byPattern: Record<string, number>;
+  bySeverity: Record<string, number>;
+  rewritten: number;
+  reindexed: number;
+}
+
+/**
+ * 既存ドキュメントの機密データを一括スキャンするクラス
+ */
+export class SensitiveDataScanner {
+  private documentManager: DocumentManager;
+  private vectorStore: VectorStore | undefined;
+  private auditLogger: AuditLogger;
+  private detector: SensitiveDataDetector;
+  private config: ConfigManager;
+  private logger: Logger;
+  private patternsLoaded = false;
+
+  constructor(
+    documentManager: DocumentManager,
+    auditLogger: AuditLogger,
+    vectorStore?: VectorStore
+  ) {
+    this.documentManager = documentManager;
+    this.auditLogger = auditLogger;
+    this.vectorStore = vectorStore;
+    this.detector = new SensitiveDataDetector();
+    this.config = ConfigManager.getInstance();
+    this.logger = new Logger('SensitiveDataScanner');
+  }
+
+  /**
+   * アクティブ・アーカイブの全ドキュメントをスキャン
+   * @param options - スキャンオプション
+   * @returns スキャン結果レポート
+   */
+  async scan(options: SensitiveDataScanOptions): Promise<SensitiveDataScanReport> {
+    await this.loadPatterns();
+
+    const active = await this.documentManager.getAllDocuments();
+    const archived = await this.documentManager.getArchivedDocuments();
+
+    this.logger.info('Starting sensitive data scan', {
+      active: active.length,
+      archived: archived.length,
+      rewrite: options.rewrite,
+    });
+
+    const report: SensitiveDataScanReport = {
+      rulePackVersion: this.detector.getRulePackVersion(),
+      activeRules: this.detector.getActiveRuleNames(),
+      scannedDocuments: active.length + archived.length,
+      affectedDocuments: [],
+      byPattern: {},
+      bySeverity: {},
+      rewritten: 0,
+      reindexed: 0,
+    };
+
+    const targets = [
+      ...active.map((doc) => ({ doc, archived: false })),
+      ...archived.map((doc) => ({ doc, archived: true })),
+    ];
+
+    for (const { doc, archived: isArchived } of targets) {
+      const findings = this.scanDocument(doc);
+      if (findings.length === 0) continue;
+
+      for (const f of findings) {
+        report.byPattern[f.pattern] = (report.byPattern[f.pattern] || 0) + f.count;
+        report.bySeverity[f.severity] = (report.bySeverity[f.severity] || 0) + f.count;
+      }
+
+      const result: DocumentScanResult = {
+        docId: doc.metadata.id,
+        filePath: doc.file_path,
+        archived: isArchived,
+        findings,
+        rewritten: false,
+      };
+
+      if (options.rewrite) {
+        const rewritten = await this.rewriteDocument(doc, findings, options);
+        result.rewritten = true;
+        report.rewritten++;
+
+        if (!isArchived && (await this.reindex(rewritten))) {
+          report.reindexed++;
+        }
+      }
+
+      report.affectedDocuments.push(result);
+    }
+
+    const hasCritical = (report.bySeverity.critical || 0) > 0;
+
+    await this.auditLogger.log({
+      timestamp: new Date().toISOString(),
+      action: 'sensitive_data_scan',
+      actor: options.actor,
+      details: {
+        rule_pack_version: report.rulePackVersion,
+        scanned: report.scannedDocuments,
+        affected: report.affectedDocuments.map((d) => d.docId),
+        byPattern: report.byPattern,
+        bySeverity: report.bySeverity,
+        rewritten: report.rewritten,
+      },
+      impact: hasCritical ? 'high' : report.affectedDocuments.length > 0 ? 'medium' : 'low',
+    });
+
+    this.logger.info('Sensitive data scan completed', {
+      scanned: report.scannedDocuments,
+      affected: report.affectedDocuments.length,
+      rewritten: report.rewritten,
+    });
+
+    return report;
+  }
+
+  /**
+   * スキャン結果をテキストにフォーマット
+   * @param report - スキャン結果レポート
+   * @returns フォーマットされたレポート
+   */
+  formatReport(report: SensitiveDataScanReport): string {
+    let text = `# 機密データスキャン結果\n\n`;
+    text += `- ルールパック: v${report.rulePackVersion}（有効なルール ${report.activeRules.length}件）\n`;
+    text += `- スキャンしたドキュメント: ${report.scannedDocuments}件\n`;
+    text += `- 検出があったドキュメント: ${report.affectedDocuments.length}件\n`;
+    text += `- マスクして書き戻したドキュメント: ${report.rewritten}件\n`;
+    text += `- 再インデックスしたドキュメント: ${report.reindexed}件\n`;
+
+    if (report.affectedDocuments.length === 0) {
+      return text + '\n機密データは検出されませんでした。\n';
+    }
+
+    text += `\n## 深刻度別\n\n`;
+    for (const severity of ['critical', 'high', 'medium', 'low']) {
+      const count = report.bySeverity[severity];
+      if (count) {
+        text += `- ${severity}: ${count}件\n`;
+      }
+    }
+
+    text += `\n## パターン別\n\n`;
+    for (const [pattern, count] of Object.entries(report.byPattern).sort((a, b) => b[1] - a[1])) {
+      text += `- ${pattern}: ${count}件\n`;
+    }
+
+    text += `\n## ドキュメント別\n\n`;
+    for (const doc of report.affectedDocuments) {
+      const status = [doc.archived ? 'アーカイブ' : 'アクティブ', doc.rewritten ? 'マスク済み' : '']
+        .filter(Boolean)
+        .join(', ');
+      text += `- ${doc.docId} (${status})\n`;
+      text += `  ${doc.findings.map((f) => `${f.pattern} [${f.category}/${f.severity}] ×${f.count}`).join(', ')}\n`;
+    }
+
+    if (report.rewritten === 0) {
+      text += `\nマスクして書き戻すには rewrite を有効にして再実行してください。\n`;
+    }
+
+    return text;
+  }
+
+  /**
+   * 設定ファイルのカスタムパターンを読み込む（初回のみ）
+   */
+  private async loadPatterns(): Promise<void> {
+    if (this.patternsLoaded) return;
+
+    const customPatternsPath = this.config.getNested('sensitiveData', 'customPatternsPath');
+    if (customPatternsPath) {
+      await this.detector.loadCustomPatterns(path.resolve(process.cwd(), customPatternsPath));
+    }
+
+    this.patternsLoaded = true;
+  }
+
+  /**
+   * 設定に応じた検出カテゴリと、作成者のメールアドレスを除外する検出オプションを作成
+   */
+  private getScanOptions(doc: Document): {
+    categories: SensitiveCategory[];
+    exempt: string[];
+  } {
+    const detectPii = this.config.getNested('sensitiveData', 'detectPii');
+    return {
+      categories: detectPii ? ['secret', 'pii'] : ['secret'],
+      exempt: ([] as string[]).concat(doc.metadata.author),
+    };
+  }
+
+  /**
+   * ドキュメントの本文とサマリを検査
+   */
+  private scanDocument(doc: Document): ScanFinding[] {
+    const options = this.getScanOptions(doc);
+    const fields = [
+      doc.content,
+      doc.metadata.summary,
+      doc.metadata.ultra_summary,
+      doc.metadata.standard_summary,
+    ];
+    const counts = new Map<string, ScanFinding>();
+
+    for (const value of fields) {
+      if (!value) continue;
+
+      for (const detected of this.detector.detect(value, options)) {
+        const key = `${detected.pattern}:${detected.severity}`;
+        const existing = counts.get(key);
+        if (existing) {
+          existing.count += detected.matches.length;
+        } else {
+          counts.set(key, {
+            pattern: detected.pattern,
+            category: detected.category,
+            severity: detected.severity,
+            count: detected.matches.length,
+          });
+        }
+      }
+    }
+
+    return Array.from(counts.values());
+  }
+
+  /**
+   * マスクを適用してドキュメントを書き戻し、change_logに記録
+   * 以前の版（リビジョン）にも同じマスクを適用する
+   */
+  private async rewriteDocument(
+    doc: Document,
+    findings: ScanFinding[],
+    options: SensitiveDataScanOptions
+  ): Promise<Document> {
+    const scanOptions = this.getScanOptions(doc);
+    const sanitizeOptional = (value: string) =>
+      value ? this.detector.sanitize(value, scanOptions) : value;
+
+    const metadata: DocumentMetadata = {
+      ...doc.metadata,
+      summary: sanitizeOptional(doc.metadata.summary),
+      ultra_summary: sanitizeOptional(doc.metadata.ultra_summary),
+      standard_summary: sanitizeOptional(doc.metadata.standard_summary),
+    };
+    const changes = diffMetadata(doc.metadata, metadata);
+
+    const saved = await this.documentManager.saveDocument({
+      ...doc,
+      content: this.detector.sanitize(doc.content, scanOptions),
+      metadata: appendChangeLog(metadata, {
+        timestamp: new Date().toISOString(),
+        action: 'redacted',
+        author: options.actor,
+        reason: options.reason ?? 'Sensitive data masked by bulk scan',
+        details: { findings, ...(Object.keys(changes).length > 0 && { changes }) },
+      }),
+    });
+
+    // 書き戻し前の内容を含む以前の版にも同じマスクを適用する
+    const revisions = await this.documentManager.rewriteRevisions(doc.metadata.id, (content) =>
+      this.detector.sanitize(content, scanOptions)
+    );
+    if (revisions > 0) {
+      this.logger.info('Revisions masked', { id: doc.metadata.id, revisions });
+    }
+
+    return saved;
+  }
+
+  /**
+   * 書き戻したドキュメントをベクトルインデックスに再登録
+   * @returns 再登録できた場合true
+   */
+  private async reindex(doc: Document): Promise<boolean> {
+    if (!this.vectorStore || !this.vectorStore.isInitialized()) return false;
+
+    try {
+      await this.vectorStore.addDocument(VectorStore.toDocumentVector(doc));
+      return true;
+    } catch (error) {
+      this.logger.warn('Failed to re-embed document', { id: doc.metadata.id, error });
+      return false;
+    }
+  }
+}
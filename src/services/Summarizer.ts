@@ -6,6 +6,14 @@
 import { ConfigManager } from './ConfigManager.js';
 import { Logger } from '../utils/logger.js';
 
+/**
+ * 使用された要約プロバイダー付きの要約結果
+ */
+export interface SummaryResult {
+  text: string;
+  provider: 'ollama' | 'keyword';
+}
+
 export class Summarizer {
   private config: ConfigManager;
   private logger: Logger;
@@ -24,19 +32,33 @@ export class Summarizer {
    * @returns 要約テキストに解決されるPromise
    */
   async summarize(content: string, maxLength: number): Promise<string> {
+    const result = await this.summarizeWithProvider(content, maxLength);
+    return result.text;
+  }
+
+  /**
+   * テキストコンテンツを要約し、どのプロバイダーで生成したかを返す
+   * 呼び出し側がAI生成かフォールバックかで処理を分けたい場合に使用
+   *
+   * @param content - 要約するテキストコンテンツ
+   * @param maxLength - 要約の最大文字数
+   * @returns 要約テキストと使用されたプロバイダー
+   */
+  async summarizeWithProvider(content: string, maxLength: number): Promise<SummaryResult> {
     // Ollamaが利用可能かチェック
     const ollamaAvailable = await this.isOllamaAvailable();
 
     if (ollamaAvailable) {
       try {
-        return await this.summarizeWithOllama(content, maxLength);
+        const text = await this.summarizeWithOllama(content, maxLength);
+        return { text, provider: 'ollama' };
       } catch (error) {
         this.logger.warn('Ollama summarization failed, falling back', { error });
       }
     }
 
     // フォールバック: シンプルなテキスト抽出
-    return this.fallbackSummarize(content, maxLength);
+    return { text: this.fallbackSummarize(content, maxLength), provider: 'keyword' };
   }
 
   /**
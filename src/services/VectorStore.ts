@@ -3,6 +3,7 @@ import * as path from 'path';
 import * as fs from 'fs/promises';
 import { Logger } from '../utils/logger.js';
 import { EmbeddingsGenerator } from '../utils/embeddings.js';
+import type { Document } from '../models/Document.js';
 
 const logger = new Logger('VectorStore');
 
@@ -23,6 +24,18 @@ export interface SearchResult {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * 埋め込みモデルが利用できない場合のエラー
+ * 文字頻度ベースの簡易フォールバックではセマンティック検索にならないため、
+ * インデックスへの登録・検索を行わずに呼び出し側へ通知する
+ */
+export class EmbeddingsUnavailableError extends Error {
+  constructor(message = 'No embedding model is available (Ollama and transformers.js failed)') {
+    super(message);
+    this.name = 'EmbeddingsUnavailableError';
+  }
+}
+
 /**
  * VectorStore - ベクトル検索機能を提供するオプショナルコンポーネント
  *
@@ -46,6 +59,23 @@ export class VectorStore {
     this.embeddings = new EmbeddingsGenerator();
   }
 
+  /**
+   * ドキュメントをインデックス登録用の形式に変換
+   *
+   * @param doc - 変換するドキュメント
+   * @returns インデックスに登録するドキュメント
+   */
+  static toDocumentVector(doc: Document): DocumentVector {
+    return {
+      id: doc.metadata.id,
+      text: `${doc.metadata.summary}\n\n${doc.content}`,
+      metadata: {
+        summary: doc.metadata.summary,
+        created: doc.metadata.created,
+      },
+    };
+  }
+
   /**
    * Vectraインデックスを初期化
    */
@@ -94,6 +124,13 @@ export class VectorStore {
     }
   }
 
+  /**
+   * 初期化済みかどうかを返す
+   */
+  isInitialized(): boolean {
+    return this.initialized && this.index !== null;
+  }
+
   /**
    * 初期化済みかチェック
    */
@@ -104,7 +141,24 @@ export class VectorStore {
   }
 
   /**
-   * ドキュメントを追加
+   * テキストの埋め込みを生成
+   * 簡易フォールバックの埋め込みしか得られない場合はEmbeddingsUnavailableErrorを投げる
+   *
+   * @param text - 埋め込みを生成するテキスト
+   * @returns 埋め込みベクトル
+   */
+  private async embed(text: string): Promise<number[]> {
+    const result = await this.embeddings.generate(text);
+
+    if (result.model === 'simple-fallback') {
+      throw new EmbeddingsUnavailableError();
+    }
+
+    return result.embedding;
+  }
+
+  /**
+   * ドキュメントを追加（同じIDが既に存在する場合は置き換え）
    *
    * @param document - 追加するドキュメント
    */
@@ -115,11 +169,11 @@ export class VectorStore {
       logger.debug('Adding document to index', { id: document.id });
 
       // Generate embeddings for the document text
-      const embeddingResult = await this.embeddings.generate(document.text);
+      const embedding = await this.embed(document.text);
 
-      await this.index!.insertItem({
+      await this.index!.upsertItem({
         id: document.id,
-        vector: embeddingResult.embedding,
+        vector: embedding,
         metadata: {
           ...document.metadata,
           text: document.text,
@@ -128,6 +182,9 @@ export class VectorStore {
 
       logger.info('Document added to index', { id: document.id });
     } catch (error) {
+      if (error instanceof EmbeddingsUnavailableError) {
+        throw error;
+      }
       logger.error('Failed to add document', { id: document.id, error });
       throw new Error(
         `Failed to add document: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -157,23 +214,26 @@ export class VectorStore {
    *
    * @param query - 検索クエリ
    * @param maxResults - 最大結果数
+   * @param threshold - 類似度の閾値（省略時は設定値）
    * @returns 類似度の高い順にソートされた検索結果
    */
-  async search(query: string, maxResults = 3): Promise<SearchResult[]> {
+  async search(query: string, maxResults = 3, threshold?: number): Promise<SearchResult[]> {
     this.ensureInitialized();
 
+    const minScore = threshold ?? this.config.similarityThreshold;
+
     try {
-      logger.debug('Searching for similar documents', { query, maxResults });
+      logger.debug('Searching for similar documents', { query, maxResults, minScore });
 
       // Generate embeddings for the query
-      const embeddingResult = await this.embeddings.generate(query);
+      const embedding = await this.embed(query);
 
       // Perform similarity search
-      const results = await this.index!.queryItems(embeddingResult.embedding, query, maxResults);
+      const results = await this.index!.queryItems(embedding, query, maxResults);
 
       // Filter by threshold and format results
       const searchResults: SearchResult[] = results
-        .filter((result) => result.score >= this.config.similarityThreshold)
+        .filter((result) => result.score >= minScore)
         .map((result) => ({
           id: result.item.id,
           score: result.score,
@@ -187,6 +247,9 @@ export class VectorStore {
 
       return searchResults;
     } catch (error) {
+      if (error instanceof EmbeddingsUnavailableError) {
+        throw error;
+      }
       logger.error('Search failed', { query, error });
       throw new Error(`Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -226,6 +226,14 @@ export class Installer {
     if (fs.existsSync(patternsSource) && !fs.existsSync(patternsTarget)) {
       fs.copyFileSync(patternsSource, patternsTarget);
     }
+
+    // .claude/docs をコミットする場合に、クローンごとのファイルを除外する .gitignore も配置
+    const gitignoreSource = path.join(this.templatesDir, 'docs.gitignore');
+    const gitignoreTarget = path.join(this.claudeDir, 'docs', '.gitignore');
+
+    if (fs.existsSync(gitignoreSource) && !fs.existsSync(gitignoreTarget)) {
+      fs.copyFileSync(gitignoreSource, gitignoreTarget);
+    }
   }
 
   /**
@@ -0,0 +1,52 @@
+/**
+ * 変更ログユーティリティ
+ * メタデータの変更前後をフィールド単位で比較し、change_log のエントリを作成する
+ */
+
+import type { ChangeLogEntry, DocumentMetadata, FieldChange } from '../models/Document.js';
+import { canonicalize } from './contentHash.js';
+
+/**
+ * 差分に含めないフィールド（書き込みのたびに変わる・変更ログ自身）
+ */
+const IGNORED_FIELDS = new Set<string>(['updated', 'change_log', 'content_hash']);
+
+/**
+ * メタデータの変更されたフィールドを抽出する
+ * @param before 変更前のメタデータ
+ * @param after 変更後のメタデータ
+ * @returns フィールド名ごとの変更前・変更後の値
+ */
+export function diffMetadata(
+  before: Partial<DocumentMetadata>,
+  after: Partial<DocumentMetadata>
+): Record<string, FieldChange> {
+  const previous = canonicalize(before) as Record<string, unknown>;
+  const current = canonicalize(after) as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(previous), ...Object.keys(current)])).sort();
+  const changes: Record<string, FieldChange> = {};
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    if (JSON.stringify(previous[key]) === JSON.stringify(current[key])) continue;
+
+    changes[key] = {
+      ...(previous[key] !== undefined && { from: previous[key] }),
+      ...(current[key] !== undefined && { to: current[key] }),
+    };
+  }
+
+  return changes;
+}
+
+/**
+ * change_log にエントリを追加したメタデータのコピーを返す
+ * @param metadata メタデータ
+ * @param entry 追加するエントリ
+ */
+export function appendChangeLog(
+  metadata: DocumentMetadata,
+  entry: ChangeLogEntry
+): DocumentMetadata {
+  return { ...metadata, change_log: [...(metadata.change_log ?? []), entry] };
+}
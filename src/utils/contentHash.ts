@@ -0,0 +1,96 @@
+/**
+ * コンテンツハッシュユーティリティ
+ * ドキュメントの本文と正規化したフロントマターのハッシュを計算し、
+ * ツールを介さずに編集されたかどうかを判定する
+ */
+
+import * as crypto from 'crypto';
+import type { ContentHash, Document, DocumentMetadata } from '../models/Document.js';
+
+/**
+ * 保存されたハッシュと現在の内容の比較結果
+ */
+export interface ContentHashVerification {
+  /** 本文が変更されている */
+  bodyChanged: boolean;
+  /** フロントマターが変更されている */
+  frontMatterChanged: boolean;
+}
+
+/**
+ * ドキュメントの本文とフロントマターのハッシュを計算する
+ * フロントマターは content_hash 自身を除き、キーを並べ替えたJSONでハッシュする
+ * @param metadata フロントマター
+ * @param content 本文
+ * @returns SHA-256ハッシュ
+ */
+export function computeContentHash(metadata: DocumentMetadata, content: string): ContentHash {
+  const frontMatter: Partial<DocumentMetadata> = { ...metadata };
+  delete frontMatter.content_hash;
+
+  return {
+    body: sha256(normalizeBody(content)),
+    front_matter: sha256(JSON.stringify(canonicalize(frontMatter))),
+  };
+}
+
+/**
+ * メタデータにハッシュを設定したコピーを返す
+ * @param metadata フロントマター
+ * @param content 本文
+ */
+export function withContentHash(metadata: DocumentMetadata, content: string): DocumentMetadata {
+  return { ...metadata, content_hash: computeContentHash(metadata, content) };
+}
+
+/**
+ * 保存されたハッシュと現在の内容を比較する
+ * @param doc ドキュメント
+ * @returns ハッシュが記録されていない場合はnull
+ */
+export function verifyContentHash(doc: Document): ContentHashVerification | null {
+  const stored = doc.metadata.content_hash;
+  if (!stored || typeof stored.body !== 'string' || typeof stored.front_matter !== 'string') {
+    return null;
+  }
+
+  const current = computeContentHash(doc.metadata, doc.content);
+  return {
+    bodyChanged: current.body !== stored.body,
+    frontMatterChanged: current.front_matter !== stored.front_matter,
+  };
+}
+
+/**
+ * 本文を正規化する
+ * フロントマターの書き出し・読み込みで前後の改行が変わるため取り除く
+ */
+function normalizeBody(content: string): string {
+  return content.replace(/\r\n/g, '\n').trim();
+}
+
+/**
+ * オブジェクトのキーを再帰的に並べ替え、undefinedを取り除く
+ * 内容が同じ値を同じJSONに変換するため、比較にも使用する
+ */
+export function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
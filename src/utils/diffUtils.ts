@@ -0,0 +1,171 @@
+/**
+ * Diffユーティリティ
+ * unified diffの行数集計と、大きな差分のハンク単位での切り詰め、
+ * 2つのテキストの行単位の差分生成を提供
+ */
+
+/**
+ * 差分の切り詰め設定
+ */
+export interface DiffLimits {
+  /** 保持する最大ハンク数 */
+  maxHunks: number;
+  /** 1ハンクあたりの最大行数 */
+  maxLinesPerHunk: number;
+}
+
+/**
+ * 切り詰め後の差分と集計結果
+ */
+export interface DiffSummary {
+  /** 切り詰め後の差分テキスト */
+  text: string;
+  /** 追加行数（切り詰め前の全体） */
+  added: number;
+  /** 削除行数（切り詰め前の全体） */
+  removed: number;
+  /** 切り詰めが行われたか */
+  truncated: boolean;
+}
+
+/**
+ * unified diffの追加・削除行数を集計する
+ * @param diff unified diff
+ * @returns 追加行数と削除行数
+ */
+export function countDiffLines(diff: string): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++') || line.startsWith('---')) continue;
+
+    if (line.startsWith('+')) {
+      added++;
+    } else if (line.startsWith('-')) {
+      removed++;
+    }
+  }
+
+  return { added, removed };
+}
+
+/**
+ * unified diffをハンク数・ハンク行数の上限で切り詰める
+ * ファイルヘッダー（diff --git, index, ---, +++）は常に保持する
+ * @param diff unified diff
+ * @param limits 切り詰め設定
+ * @returns 切り詰め後の差分と集計結果
+ */
+export function summarizeDiff(diff: string, limits: DiffLimits): DiffSummary {
+  const { added, removed } = countDiffLines(diff);
+  const lines = diff.replace(/\n$/, '').split('\n');
+
+  const header: string[] = [];
+  const hunks: string[][] = [];
+
+  for (const line of lines) {
+    if (line.startsWith('@@')) {
+      hunks.push([line]);
+    } else if (hunks.length === 0) {
+      header.push(line);
+    } else {
+      hunks[hunks.length - 1]!.push(line);
+    }
+  }
+
+  let truncated = false;
+  const output = [...header];
+
+  for (const hunk of hunks.slice(0, limits.maxHunks)) {
+    // ハンクヘッダー（@@行）を除いた行数で制限する
+    if (hunk.length - 1 > limits.maxLinesPerHunk) {
+      const omitted = hunk.length - 1 - limits.maxLinesPerHunk;
+      output.push(...hunk.slice(0, limits.maxLinesPerHunk + 1));
+      output.push(`... (${omitted} lines omitted)`);
+      truncated = true;
+    } else {
+      output.push(...hunk);
+    }
+  }
+
+  if (hunks.length > limits.maxHunks) {
+    output.push(`... (${hunks.length - limits.maxHunks} more hunks omitted)`);
+    truncated = true;
+  }
+
+  return { text: output.join('\n'), added, removed, truncated };
+}
+
+/**
+ * 2つのテキストの行単位の差分をunified diff形式で生成する
+ * 最長共通部分列（LCS）で一致する行を求め、変更箇所の前後にcontext行を含めたハンクにまとめる
+ * @param before 変更前のテキスト
+ * @param after 変更後のテキスト
+ * @param options ファイルヘッダーのラベルと前後に含める行数
+ * @returns unified diff（差分がない場合は空文字列）
+ */
+export function createLineDiff(
+  before: string,
+  after: string,
+  options: { fromLabel?: string; toLabel?: string; context?: number } = {}
+): string {
+  const { fromLabel = 'before', toLabel = 'after', context = 3 } = options;
+  const toLines = (text: string): string[] =>
+    text === '' ? [] : text.replace(/\n$/, '').split('\n');
+  const a = toLines(before);
+  const b = toLines(after);
+
+  // lcs[i][j]: a[i..], b[j..] の最長共通部分列の長さ
+  const lcs: Uint32Array[] = Array.from(
+    { length: a.length + 1 },
+    () => new Uint32Array(b.length + 1)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] =
+        a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  // 編集スクリプト（' ' は一致、'-' は削除、'+' は追加）
+  const ops: Array<{ type: ' ' | '-' | '+'; line: string; aIndex: number; bIndex: number }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i]!, aIndex: i++, bIndex: j++ });
+    } else if (i < a.length && (j >= b.length || lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+      ops.push({ type: '-', line: a[i]!, aIndex: i++, bIndex: j });
+    } else {
+      ops.push({ type: '+', line: b[j]!, aIndex: i, bIndex: j++ });
+    }
+  }
+
+  const changed = ops.map((op, index) => (op.type === ' ' ? -1 : index)).filter((n) => n >= 0);
+  if (changed.length === 0) return '';
+
+  // 変更箇所をcontext行の範囲でまとめてハンクにする
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  let start = 0;
+  while (start < changed.length) {
+    let end = start;
+    while (end + 1 < changed.length && changed[end + 1]! - changed[end]! <= context * 2 + 1) {
+      end++;
+    }
+
+    const from = Math.max(0, changed[start]! - context);
+    const to = Math.min(ops.length - 1, changed[end]! + context);
+    const hunk = ops.slice(from, to + 1);
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+    const oldStart = oldCount > 0 ? hunk[0]!.aIndex + 1 : hunk[0]!.aIndex;
+    const newStart = newCount > 0 ? hunk[0]!.bIndex + 1 : hunk[0]!.bIndex;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...hunk.map((op) => `${op.type}${op.line}`));
+    start = end + 1;
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,46 @@
+/**
+ * エントロピーユーティリティ
+ * 文字列のシャノンエントロピー計算と文字種の判定を提供
+ */
+
+/**
+ * エントロピー判定に使う文字種
+ */
+export type EntropyCharset = 'hex' | 'base64';
+
+/**
+ * 文字列のシャノンエントロピー（1文字あたりのビット数）を計算する
+ * @param value 対象の文字列
+ * @returns エントロピー（空文字列の場合は0）
+ */
+export function shannonEntropy(value: string): number {
+  if (value.length === 0) return 0;
+
+  const frequencies = new Map<string, number>();
+  for (const char of value) {
+    frequencies.set(char, (frequencies.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of frequencies.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+
+  return entropy;
+}
+
+/**
+ * 文字列の文字種を判定する
+ * 英字と数字の両方を含まない文字列は識別子や数値とみなしnullを返す
+ * @param value 対象の文字列
+ * @returns 文字種（該当しない場合はnull）
+ */
+export function detectCharset(value: string): EntropyCharset | null {
+  if (!/[0-9]/.test(value) || !/[a-zA-Z]/.test(value)) return null;
+
+  if (/^[0-9a-fA-F]+$/.test(value)) return 'hex';
+  if (/^[A-Za-z0-9+/_-]+={0,2}$/.test(value)) return 'base64';
+
+  return null;
+}
@@ -0,0 +1,211 @@
+/**
+ * ファイルロックユーティリティ
+ * 複数のMCPサーバープロセスが同じ .claude/docs を操作する場合に、
+ * 複数ステップの操作（マージ・アーカイブなど）を排他するアドバイザリロックを提供
+ */
+
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Logger } from './logger.js';
+
+const logger = new Logger('FileLock');
+
+/**
+ * ロックファイルに記録する保持者の情報
+ */
+export interface LockHolder {
+  pid: number;
+  hostname: string;
+  operation: string;
+  acquired: string; // ISO 8601形式
+}
+
+/**
+ * ロック取得オプション
+ */
+export interface LockOptions {
+  /** 取得できない場合の再試行回数 */
+  retries?: number;
+  /** 再試行の間隔（ミリ秒） */
+  retryDelayMs?: number;
+  /** この時間を超えて更新されていないロックは放棄されたとみなす（ミリ秒） */
+  staleMs?: number;
+}
+
+const DEFAULT_LOCK_OPTIONS: Required<LockOptions> = {
+  retries: 40,
+  retryDelayMs: 250,
+  staleMs: 10 * 60 * 1000,
+};
+
+/**
+ * 他のプロセスがロックを保持している場合のエラー
+ */
+export class LockHeldError extends Error {
+  constructor(
+    message: string,
+    public holder: LockHolder | null
+  ) {
+    super(message);
+    this.name = 'LockHeldError';
+  }
+}
+
+/**
+ * 現在の非同期コンテキストが保持しているロック
+ * 同じ処理の中で入れ子にロックを取得してもデッドロックしないようにする
+ */
+const heldLocks = new AsyncLocalStorage<Set<string>>();
+
+/**
+ * ロックを取得して処理を実行し、完了後に解放する
+ * ロックが使用中の場合は再試行し、保持者のプロセスが終了している・長時間更新されていない場合は
+ * 放棄されたロックとして取り除く
+ * 保持中はロックファイルの更新時刻を定期的に更新し、長い処理のロックが放棄されたとみなされないようにする
+ * @param lockPath - ロックファイルのパス
+ * @param operation - 操作名（保持者の情報として記録）
+ * @param fn - ロック中に実行する処理
+ * @param options - ロック取得オプション
+ * @throws {LockHeldError} 再試行してもロックを取得できなかった場合
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  operation: string,
+  fn: () => Promise<T>,
+  options: LockOptions = {}
+): Promise<T> {
+  const held = heldLocks.getStore();
+  if (held?.has(lockPath)) {
+    return await fn();
+  }
+
+  const resolved = { ...DEFAULT_LOCK_OPTIONS, ...options };
+  await acquireLock(lockPath, operation, resolved);
+  const heartbeat = startHeartbeat(lockPath, resolved.staleMs);
+
+  try {
+    return await heldLocks.run(new Set([...(held ?? []), lockPath]), fn);
+  } finally {
+    clearInterval(heartbeat);
+    await fs.rm(lockPath, { force: true });
+    logger.debug('Lock released', { lockPath, operation });
+  }
+}
+
+/**
+ * ロックファイルを排他的に作成する
+ */
+async function acquireLock(
+  lockPath: string,
+  operation: string,
+  options: Required<LockOptions>
+): Promise<void> {
+  const holder: LockHolder = {
+    pid: process.pid,
+    hostname: os.hostname(),
+    operation,
+    acquired: new Date().toISOString(),
+  };
+
+  let current: LockHolder | null = null;
+
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    try {
+      await fs.writeFile(lockPath, JSON.stringify(holder), { encoding: 'utf-8', flag: 'wx' });
+      logger.debug('Lock acquired', { lockPath, operation, attempt });
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    current = await readLockHolder(lockPath);
+    if (await isStaleLock(lockPath, current, options.staleMs)) {
+      // 判定中に他のプロセスが取り直したロックを消さないよう、保持者が変わっていないか確認する
+      const latest = await readLockHolder(lockPath);
+      if (latest?.pid === current?.pid && latest?.acquired === current?.acquired) {
+        logger.warn('Removing stale lock', { lockPath, holder: current });
+        await fs.rm(lockPath, { force: true });
+      }
+      continue;
+    }
+
+    if (attempt < options.retries) {
+      await new Promise((resolve) => setTimeout(resolve, options.retryDelayMs));
+    }
+  }
+
+  throw new LockHeldError(
+    current
+      ? `Lock is held by process ${current.pid} on ${current.hostname} (${current.operation} since ${current.acquired})`
+      : `Lock is held by another process: ${lockPath}`,
+    current
+  );
+}
+
+/**
+ * 保持中のロックファイルの更新時刻を staleMs より短い間隔で更新する
+ * タイマーはプロセスの終了を妨げない
+ */
+function startHeartbeat(lockPath: string, staleMs: number): NodeJS.Timeout {
+  const timer = setInterval(
+    () => {
+      const now = new Date();
+      fs.utimes(lockPath, now, now).catch((error: unknown) => {
+        logger.debug('Failed to refresh lock', { lockPath, error });
+      });
+    },
+    Math.max(Math.floor(staleMs / 3), 1)
+  );
+  timer.unref();
+  return timer;
+}
+
+/**
+ * ロックファイルから保持者の情報を読み込む
+ * @returns 読み込めない場合（書き込み途中など）はnull
+ */
+async function readLockHolder(lockPath: string): Promise<LockHolder | null> {
+  try {
+    return JSON.parse(await fs.readFile(lockPath, 'utf-8')) as LockHolder;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * ロックが放棄されたものか判定
+ * 同じホストで保持者のプロセスが存在しない場合、またはロックファイルが閾値を超えて更新されていない場合
+ */
+async function isStaleLock(
+  lockPath: string,
+  holder: LockHolder | null,
+  staleMs: number
+): Promise<boolean> {
+  if (holder && holder.hostname === os.hostname() && !isProcessAlive(holder.pid)) {
+    return true;
+  }
+
+  try {
+    const stat = await fs.stat(lockPath);
+    return Date.now() - stat.mtimeMs > staleMs;
+  } catch {
+    // 確認中に解放された場合は次の試行で取得する
+    return false;
+  }
+}
+
+/**
+ * 指定したプロセスが実行中か判定
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERMは他ユーザーのプロセスが存在する場合
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -1,5 +1,6 @@
 import { promises as fs } from 'node:fs';
 import * as path from 'node:path';
+import { randomBytes } from 'node:crypto';
 import { Logger } from './logger.js';
 
 const logger = new Logger('FileSystem');
@@ -197,3 +198,45 @@ export async function exists(filePath: string, basePath?: string): Promise<boole
     throw new FileSystemError(`Failed to check path existence: ${filePath}`, fsError.code);
   }
 }
+
+/**
+ * .claude/ ディレクトリ内のファイルにアトミックに書き込む
+ * 同じディレクトリの一時ファイルに書き込んでからリネームするため、
+ * 読み込み側が書きかけの内容を見ることはない
+ * @param filePath - プロジェクトルートからの相対パスまたは絶対パス
+ * @param content - 書き込むコンテンツ
+ * @param basePath - オプションのベースパス（デフォルトは process.cwd()）
+ * @throws {FileSystemError} パス検証が失敗した場合、またはファイルに書き込めない場合
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  content: string,
+  basePath?: string
+): Promise<void> {
+  validatePath(filePath, basePath);
+  const base = basePath || process.cwd();
+  const absolutePath = path.resolve(base, filePath);
+
+  // 隠しファイルにすることでドキュメントの一覧やファイル監視の対象から外す
+  const tempPath = path.join(
+    path.dirname(absolutePath),
+    `.${path.basename(absolutePath)}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`
+  );
+
+  try {
+    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.rename(tempPath, absolutePath);
+    logger.debug('File written atomically', { filePath: absolutePath });
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+
+    const fsError = error as NodeJS.ErrnoException;
+    logger.error('Atomic file write failed', {
+      filePath,
+      error: fsError.message,
+      code: fsError.code,
+    });
+
+    throw new FileSystemError(`Failed to write file: ${filePath}`, fsError.code);
+  }
+}
@@ -1,4 +1,5 @@
-import { execSync } from 'child_process';
+import { execSync, execFileSync } from 'child_process';
+import * as fs from 'fs';
 
 /**
  * Git設定情報
@@ -35,6 +36,45 @@ function executeGitCommand(command: string): string | null {
   }
 }
 
+/**
+ * 差分の取得対象
+ * - head: 作業ツリーとHEADの差分
+ * - base: 作業ツリーと指定した基準refの差分
+ * - staged: ステージ済みの変更のみ
+ */
+export type GitDiffMode = 'head' | 'base' | 'staged';
+
+/**
+ * 差分取得オプション
+ */
+export interface GitDiffOptions {
+  mode: GitDiffMode;
+  baseRef?: string;
+}
+
+/**
+ * 引数配列でGitコマンドを実行する（シェルを介さないためパスやrefをそのまま渡せる）
+ * @param args Gitに渡す引数
+ * @param allowExitCodeOne 終了コード1を成功として扱う（diff --no-indexは差分があると1を返す）
+ * @returns コマンドの標準出力（失敗時はnull）
+ */
+function executeGitArgs(args: string[], allowExitCodeOne = false): string | null {
+  try {
+    return execFileSync('git', args, {
+      encoding: 'utf8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+      cwd: process.cwd(),
+      maxBuffer: 10 * 1024 * 1024,
+    });
+  } catch (error) {
+    const execError = error as { status?: number; stdout?: string };
+    if (allowExitCodeOne && execError.status === 1 && typeof execError.stdout === 'string') {
+      return execError.stdout;
+    }
+    return null;
+  }
+}
+
 /**
  * Git設定（user.email, user.name）を取得する
  * @returns Git設定情報
@@ -65,7 +105,8 @@ export function getCurrentBranch(): string | null {
  */
 export function getChangedFiles(): GitChangedFile[] {
   // git status --porcelain で変更ファイルを取得
-  const statusOutput = executeGitCommand('git status --porcelain');
+  // 先頭行のステータス列（" M" など）の空白を保つため出力全体はtrimしない
+  const statusOutput = executeGitArgs(['status', '--porcelain']);
 
   if (!statusOutput) {
     return [];
@@ -95,3 +136,198 @@ export function isGitRepository(): boolean {
   const result = executeGitCommand('git rev-parse --is-inside-work-tree');
   return result === 'true';
 }
+
+/**
+ * ファイルがGitで追跡されているかチェックする
+ * @param filePath ファイルパス
+ * @returns 追跡されている場合true
+ */
+export function isTrackedFile(filePath: string): boolean {
+  return executeGitArgs(['ls-files', '--error-unmatch', '--', filePath]) !== null;
+}
+
+/**
+ * ファイルのunified diffを取得する
+ * 未追跡ファイルは空ファイルとの差分（全行追加）として扱う
+ * @param filePath ファイルパス
+ * @param options 差分取得オプション
+ * @returns unified diff（差分がない場合は空文字、取得失敗時はnull）
+ */
+export function getFileDiff(filePath: string, options: GitDiffOptions): string | null {
+  switch (options.mode) {
+    case 'staged':
+      return executeGitArgs(['diff', '--no-color', '--cached', '--', filePath]);
+
+    case 'base':
+      // "-"で始まるrefはオプションとして解釈されるため拒否
+      if (!options.baseRef || options.baseRef.startsWith('-')) {
+        return null;
+      }
+      if (!isTrackedFile(filePath)) {
+        return executeGitArgs(
+          ['diff', '--no-color', '--no-index', '--', '/dev/null', filePath],
+          true
+        );
+      }
+      return executeGitArgs(['diff', '--no-color', options.baseRef, '--', filePath]);
+
+    case 'head':
+    default:
+      if (!isTrackedFile(filePath)) {
+        return executeGitArgs(
+          ['diff', '--no-color', '--no-index', '--', '/dev/null', filePath],
+          true
+        );
+      }
+      return executeGitArgs(['diff', '--no-color', 'HEAD', '--', filePath]);
+  }
+}
+
+/**
+ * ファイル変更（コミット履歴または作業ツリー）
+ */
+export interface GitFileChange {
+  status: 'A' | 'M' | 'D' | 'R';
+  path: string;
+  oldPath?: string; // リネームの場合の変更前パス
+  timestamp: string; // 変更日時（ISO 8601形式）
+}
+
+/**
+ * --name-status 形式の1行を解析する
+ * 形式: "M\tpath" または "R100\told\tnew"
+ */
+function parseNameStatusLine(line: string, timestamp: string): GitFileChange | null {
+  const [status = '', first, second] = line.split('\t');
+  if (!first) return null;
+
+  const kind = status.charAt(0);
+  if (kind === 'R' && second) {
+    return { status: 'R', path: second, oldPath: first, timestamp };
+  }
+  if (kind === 'A' || kind === 'M' || kind === 'D') {
+    return { status: kind, path: first, timestamp };
+  }
+  return null;
+}
+
+/**
+ * 指定日時以降のコミットで変更されたファイルを取得する
+ * リネームは -M で検出し、変更前と変更後のパスを返す
+ * パスはカレントディレクトリからの相対パスで、外部の変更は含まない
+ * @param since 基準日時（ISO 8601形式）
+ * @returns 古いコミットから順に並んだ変更（取得失敗時はnull）
+ */
+export function getCommittedFileChanges(since: string): GitFileChange[] | null {
+  const output = executeGitArgs([
+    'log',
+    '--reverse',
+    '--relative',
+    '-M',
+    '--name-status',
+    '--format=%x00%cI',
+    `--since=${since}`,
+  ]);
+
+  if (output === null) {
+    return null;
+  }
+
+  const changes: GitFileChange[] = [];
+  let timestamp = '';
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('\0')) {
+      timestamp = line.slice(1).trim();
+      continue;
+    }
+
+    const change = timestamp ? parseNameStatusLine(line, timestamp) : null;
+    if (change) {
+      changes.push(change);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * まだコミットされていないリネーム（git mv など）を取得する
+ * HEADと作業ツリーを -M で比較するため、インデックスに登録されたリネームのみ検出される
+ * リネームの日時は記録されないため、リネームで更新されるリネーム先のctimeを日時とする
+ * @returns リネームの配列（リネーム先が存在しないものは含まない、取得失敗時は空配列）
+ */
+export function getUncommittedRenames(): GitFileChange[] {
+  const output = executeGitArgs([
+    'diff',
+    '--relative',
+    '-M',
+    '--name-status',
+    '--diff-filter=R',
+    'HEAD',
+  ]);
+
+  if (!output) {
+    return [];
+  }
+
+  const renames: GitFileChange[] = [];
+  for (const line of output.split('\n')) {
+    const change = parseNameStatusLine(line, '');
+    if (!change) continue;
+
+    try {
+      const { ctime } = fs.statSync(change.path);
+      renames.push({ ...change, timestamp: ctime.toISOString() });
+    } catch {
+      // リネーム後に削除されたファイルは作業ツリーの状態から判定する
+    }
+  }
+
+  return renames;
+}
+
+/**
+ * 作業ツリーのファイルのブロブハッシュを取得する
+ * 存在しないファイルやGit管理外のディレクトリでは結果に含めない
+ * @param paths カレントディレクトリからの相対パス
+ * @returns パスとブロブハッシュの対応
+ */
+export function hashWorkingTreeFiles(paths: string[]): Record<string, string> {
+  const hashes: Record<string, string> = {};
+
+  // 1つでも存在しないファイルがあるとコマンド全体が失敗するため、1ファイルずつ取得する
+  for (const filePath of paths) {
+    const hash = executeGitArgs(['hash-object', '--', filePath])?.trim();
+    if (hash) {
+      hashes[filePath] = hash;
+    }
+  }
+
+  return hashes;
+}
+
+/**
+ * 指定したrefに含まれるファイルのブロブハッシュを取得する
+ * @param paths カレントディレクトリからの相対パス
+ * @param ref 対象のref（既定はHEAD）
+ * @returns パスとブロブハッシュの対応（refに含まれないファイルは含めない）
+ */
+export function getCommittedBlobHashes(paths: string[], ref = 'HEAD'): Map<string, string> {
+  const hashes = new Map<string, string>();
+  if (paths.length === 0) return hashes;
+
+  const output = executeGitArgs(['ls-tree', '-z', ref, '--', ...paths]);
+  if (!output) return hashes;
+
+  // 形式: "<mode> <type> <hash>\t<path>\0"
+  for (const entry of output.split('\0')) {
+    const [info = '', filePath] = entry.split('\t');
+    const [, type, hash] = info.split(' ');
+    if (filePath && type === 'blob' && hash) {
+      hashes.set(filePath, hash);
+    }
+  }
+
+  return hashes;
+}
@@ -109,8 +109,8 @@ export class Logger {
     const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
     const logMessage = `[${timestamp}] [${levelName}] [${this.context}] ${message}${metaStr}`;
 
-    // コンソール出力
-    console.log(logMessage);
+    // コンソール出力（標準出力はMCPのstdioトランスポートとCLIの結果に使うため標準エラー出力に書く）
+    console.error(logMessage);
 
     // ファイル出力
     if (this.logFile) {
@@ -0,0 +1,55 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from '../../src/services/ConfigManager.js';
+import type { RecorderConfig } from '../../src/models/Config.js';
+
+/**
+ * 設定のセクションごとの部分的な上書き
+ */
+export type ConfigOverrides = {
+  [K in keyof RecorderConfig]?: RecorderConfig[K] extends object
+    ? Partial<RecorderConfig[K]>
+    : RecorderConfig[K];
+};
+
+/**
+ * テスト用の一時プロジェクト
+ */
+export interface TempProject {
+  root: string;
+  cleanup: () => Promise<void>;
+}
+
+/**
+ * 一時ディレクトリにプロジェクトを作成し、カレントディレクトリを移動する
+ * サービスは process.cwd() の .claude/ を使うため、テストファイルごとのプロセスで使用する
+ * @param overrides - .claude/recorder.config.json に書き込む設定
+ */
+export async function createTempProject(overrides: ConfigOverrides = {}): Promise<TempProject> {
+  const originalCwd = process.cwd();
+  const root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'recorder-test-')));
+
+  const config: ConfigOverrides = {
+    ...overrides,
+    // Ollamaに接続しない（すぐに接続が拒否されキーワード要約にフォールバックする）
+    summarizer: { ollamaEndpoint: 'http://127.0.0.1:9', ...overrides.summarizer },
+  };
+  await fs.mkdir(path.join(root, '.claude'), { recursive: true });
+  await fs.writeFile(
+    path.join(root, '.claude', 'recorder.config.json'),
+    JSON.stringify(config, null, 2)
+  );
+
+  process.chdir(root);
+  ConfigManager.resetInstance();
+
+  return {
+    root,
+    cleanup: async () => {
+      process.chdir(originalCwd);
+      ConfigManager.resetInstance();
+      await fs.rm(root, { recursive: true, force: true });
+    },
+  };
+}
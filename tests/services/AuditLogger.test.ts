@@ -0,0 +1,128 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createTempProject, type TempProject } from '../helpers/tempProject.js';
+import { AuditLogger } from '../../src/services/AuditLogger.js';
+import type { AuditLogEntry, LogFilters } from '../../src/models/AuditLogEntry.js';
+
+/**
+ * 番号で識別できる監査ログエントリ
+ */
+function entry(n: number, timestamp: string): AuditLogEntry {
+  return { timestamp, action: 'test', actor: 'system', details: { n }, impact: 'low' };
+}
+
+describe('AuditLogger.searchPage', () => {
+  let project: TempProject;
+  let auditLogger: AuditLogger;
+  let auditDir: string;
+
+  beforeEach(async () => {
+    project = await createTempProject();
+    auditLogger = new AuditLogger();
+    await auditLogger.initialize();
+    auditDir = path.join(project.root, '.claude', 'docs', '.audit');
+  });
+
+  afterEach(async () => {
+    await project.cleanup();
+  });
+
+  /**
+   * ログファイルにエントリを書き込む
+   * @param file - .audit 内のファイル名（ローテーション済みは audit.<timestamp>.log）
+   */
+  async function writeLog(file: string, entries: AuditLogEntry[]): Promise<void> {
+    await fs.appendFile(
+      path.join(auditDir, file),
+      entries.map((e) => JSON.stringify(e) + '\n').join('')
+    );
+  }
+
+  /**
+   * カーソルをたどって全ページのエントリ番号を取得
+   */
+  async function collectPages(filters: LogFilters, limit: number): Promise<number[][]> {
+    const pages: number[][] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await auditLogger.searchPage(filters, {
+        limit,
+        ...(cursor !== undefined && { cursor }),
+      });
+      pages.push(page.entries.map((e) => e.details.n as number));
+      cursor = page.nextCursor;
+    } while (cursor !== undefined);
+
+    return pages;
+  }
+
+  it('pages newest first across rotated files', async () => {
+    await writeLog('audit.2026-01-01T00-00-00-000Z.log', [
+      entry(1, '2026-01-01T00:00:00.000Z'),
+      entry(2, '2026-01-01T00:01:00.000Z'),
+    ]);
+    await writeLog('audit.2026-01-02T00-00-00-000Z.log', [
+      entry(3, '2026-01-02T00:00:00.000Z'),
+      entry(4, '2026-01-02T00:01:00.000Z'),
+    ]);
+    await writeLog('audit.log', [entry(5, '2026-01-03T00:00:00.000Z')]);
+
+    expect(await collectPages({}, 2)).toEqual([[5, 4], [3, 2], [1]]);
+  });
+
+  it('splits entries sharing a timestamp across pages without repeating them', async () => {
+    const timestamp = '2026-01-02T00:00:00.000Z';
+    await writeLog('audit.2026-01-02T00-00-00-000Z.log', [
+      entry(1, '2026-01-01T00:00:00.000Z'),
+      entry(2, timestamp),
+      entry(3, timestamp),
+    ]);
+    await writeLog('audit.log', [entry(4, timestamp), entry(5, timestamp)]);
+
+    expect(await collectPages({}, 3)).toEqual([
+      [5, 4, 3],
+      [2, 1],
+    ]);
+  });
+
+  it('continues from the cursor after a rotation and new entries', async () => {
+    await writeLog('audit.log', [
+      entry(1, '2026-01-01T00:00:00.000Z'),
+      entry(2, '2026-01-01T00:01:00.000Z'),
+      entry(3, '2026-01-01T00:02:00.000Z'),
+    ]);
+    const first = await auditLogger.searchPage({}, { limit: 2 });
+
+    await fs.rename(
+      path.join(auditDir, 'audit.log'),
+      path.join(auditDir, 'audit.2026-01-01T00-03-00-000Z.log')
+    );
+    await writeLog('audit.log', [entry(4, '2026-01-01T00:04:00.000Z')]);
+    const second = await auditLogger.searchPage({}, { limit: 2, cursor: first.nextCursor! });
+
+    expect(first.entries.map((e) => e.details.n)).toEqual([3, 2]);
+    expect(second.entries.map((e) => e.details.n)).toEqual([1]);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('applies the filters before paging', async () => {
+    await writeLog('audit.2026-01-01T00-00-00-000Z.log', [
+      { ...entry(1, '2026-01-01T00:00:00.000Z'), impact: 'high' },
+      entry(2, '2026-01-01T00:01:00.000Z'),
+    ]);
+    await writeLog('audit.log', [{ ...entry(3, '2026-01-02T00:00:00.000Z'), impact: 'high' }]);
+
+    const page = await auditLogger.searchPage({ impact: 'high' }, { limit: 1 });
+
+    expect(page.total).toBe(2);
+    expect(await collectPages({ impact: 'high' }, 1)).toEqual([[3], [1]]);
+  });
+
+  it('rejects an invalid cursor', async () => {
+    await expect(auditLogger.searchPage({}, { cursor: 'not-a-cursor' })).rejects.toThrow(
+      'Invalid audit log cursor'
+    );
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { ConfigManager } from '../../src/services/ConfigManager.js';
+
+/**
+ * 保持ポリシーの適用間隔だけを変えた既定の設定
+ */
+function withRetentionInterval(hours: number) {
+  const defaults = ConfigManager.getDefaults();
+  return {
+    ...defaults,
+    documentManager: { ...defaults.documentManager, retentionIntervalHours: hours },
+  };
+}
+
+describe('ConfigManager.validate', () => {
+  it('accepts a retention interval of 0 to run only at startup', () => {
+    expect(ConfigManager.validate(withRetentionInterval(0))).toEqual([]);
+  });
+
+  it('rejects a negative retention interval', () => {
+    expect(ConfigManager.validate(withRetentionInterval(-1))).toEqual([
+      expect.objectContaining({ field: 'documentManager.retentionIntervalHours' }),
+    ]);
+  });
+});
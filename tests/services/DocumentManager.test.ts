@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createTempProject, type TempProject } from '../helpers/tempProject.js';
+import { AuditLogger } from '../../src/services/AuditLogger.js';
+import { DocumentManager } from '../../src/services/DocumentManager.js';
+
+describe('DocumentManager', () => {
+  let project: TempProject;
+  let auditLogger: AuditLogger;
+  let documentManager: DocumentManager;
+
+  beforeEach(async () => {
+    project = await createTempProject({
+      sensitiveData: { autoMask: false, maskPii: false },
+    });
+    auditLogger = new AuditLogger();
+    await auditLogger.initialize();
+    documentManager = new DocumentManager(auditLogger);
+    await documentManager.initialize();
+  });
+
+  afterEach(async () => {
+    await project.cleanup();
+  });
+
+  describe('sensitive data detection without masking', () => {
+    it('records a detection only when new matches appear', async () => {
+      const doc = await documentManager.createDocument({
+        files: ['src/server.ts'],
+        prompt: 'Document the server address',
+        summary: 'Server address',
+        content: 'The API runs on 203.104.153.1.',
+      });
+
+      await documentManager.updateDocument(doc.metadata.id, { tags: ['network'] });
+      await documentManager.updateDocument(doc.metadata.id, { tags: ['network', 'api'] });
+
+      let detections = await auditLogger.search({ action: 'sensitive_data_detected' });
+      expect(detections).toHaveLength(1);
+
+      const updated = await documentManager.updateDocument(doc.metadata.id, {
+        summary: 'Server address 198.51.99.7',
+      });
+
+      detections = await auditLogger.search({ action: 'sensitive_data_detected' });
+      expect(detections).toHaveLength(2);
+      expect(updated.sensitive_findings).toEqual([
+        expect.objectContaining({ field: 'summary', pattern: 'PII_IPv4', count: 1 }),
+      ]);
+    });
+  });
+});
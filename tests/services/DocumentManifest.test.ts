@@ -0,0 +1,121 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import matter from 'gray-matter';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createTempProject, type TempProject } from '../helpers/tempProject.js';
+import { AuditLogger } from '../../src/services/AuditLogger.js';
+import { DocumentManager } from '../../src/services/DocumentManager.js';
+import {
+  DocumentManifest,
+  MANIFEST_FILE_NAME,
+  type ManifestEntry,
+} from '../../src/services/DocumentManifest.js';
+import type { Document, DocumentMetadata } from '../../src/models/Document.js';
+
+describe('DocumentManifest.refresh', () => {
+  let project: TempProject;
+  let documentManager: DocumentManager;
+  let manifest: DocumentManifest;
+  let doc: Document;
+
+  beforeEach(async () => {
+    project = await createTempProject();
+    const auditLogger = new AuditLogger();
+    await auditLogger.initialize();
+    documentManager = new DocumentManager(auditLogger);
+    await documentManager.initialize();
+    doc = await documentManager.createDocument({
+      files: ['src/login.ts'],
+      prompt: 'Add login form',
+      summary: 'Add login form',
+      content: 'Add login form in src/login.ts.',
+    });
+
+    // 別のプロセスから見たマニフェスト
+    manifest = new DocumentManifest(documentManager.getDocsDir(), documentManager.getArchiveDir());
+    await manifest.load();
+  });
+
+  afterEach(async () => {
+    await project.cleanup();
+  });
+
+  /**
+   * ドキュメントファイルのフロントマターを直接書き換える
+   */
+  async function editFrontMatter(
+    filePath: string,
+    edit: (metadata: DocumentMetadata) => DocumentMetadata
+  ): Promise<void> {
+    const parsed = matter(await fs.readFile(filePath, 'utf-8'), {});
+    await fs.writeFile(
+      filePath,
+      matter.stringify(parsed.content, edit(parsed.data as DocumentMetadata))
+    );
+  }
+
+  it('reports no drift when the files are unchanged', async () => {
+    const before = await manifest.query();
+
+    expect(await manifest.refresh()).toBe(false);
+    expect(await manifest.query()).toEqual(before);
+  });
+
+  it('updates the entry of a file edited outside the tool', async () => {
+    await editFrontMatter(doc.file_path, (metadata) => ({ ...metadata, tags: ['auth'] }));
+
+    expect(await manifest.refresh()).toBe(true);
+    expect(await manifest.get(doc.metadata.id)).toEqual(
+      expect.objectContaining({ tags: ['auth'], archived: false })
+    );
+  });
+
+  it('adds files that appeared and removes entries whose file is gone', async () => {
+    const addedPath = path.join(documentManager.getDocsDir(), 'pulled.md');
+    const addedId = '11111111-1111-4111-8111-111111111111';
+    await fs.copyFile(doc.file_path, addedPath);
+    await editFrontMatter(addedPath, (metadata) => ({ ...metadata, id: addedId }));
+    await fs.unlink(doc.file_path);
+
+    expect(await manifest.refresh()).toBe(true);
+    expect((await manifest.query()).map(({ id, file }) => ({ id, file }))).toEqual([
+      { id: addedId, file: 'pulled.md' },
+    ]);
+  });
+
+  it('follows a file moved into the archive by hand', async () => {
+    await fs.mkdir(documentManager.getArchiveDir(), { recursive: true });
+    await fs.rename(
+      doc.file_path,
+      path.join(documentManager.getArchiveDir(), path.basename(doc.file_path))
+    );
+
+    expect(await manifest.refresh()).toBe(true);
+    expect(await manifest.query({ archived: false })).toEqual([]);
+    expect((await manifest.query({ archived: true })).map(({ id }) => id)).toEqual([
+      doc.metadata.id,
+    ]);
+  });
+
+  it('replaces the entry when the id in a file is changed by hand', async () => {
+    const newId = '22222222-2222-4222-8222-222222222222';
+    await editFrontMatter(doc.file_path, (metadata) => ({ ...metadata, id: newId }));
+
+    expect(await manifest.refresh()).toBe(true);
+    expect(await manifest.get(doc.metadata.id)).toBeUndefined();
+    expect(await manifest.get(newId)).toEqual(
+      expect.objectContaining({ file: path.basename(doc.file_path) })
+    );
+  });
+
+  it('persists the refreshed entries to the manifest file', async () => {
+    await editFrontMatter(doc.file_path, (metadata) => ({ ...metadata, tags: ['auth'] }));
+    await manifest.refresh();
+
+    const persisted = JSON.parse(
+      await fs.readFile(path.join(documentManager.getDocsDir(), MANIFEST_FILE_NAME), 'utf-8')
+    ) as { entries: Record<string, ManifestEntry> };
+
+    expect(persisted.entries[doc.metadata.id]?.tags).toEqual(['auth']);
+  });
+});
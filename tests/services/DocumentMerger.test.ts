@@ -0,0 +1,249 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createTempProject, type TempProject } from '../helpers/tempProject.js';
+import { AuditLogger } from '../../src/services/AuditLogger.js';
+import { DocumentManager } from '../../src/services/DocumentManager.js';
+import { DocumentMerger } from '../../src/services/DocumentMerger.js';
+import {
+  OperationJournal,
+  type JournalEntry,
+  type JournalStepName,
+} from '../../src/services/OperationJournal.js';
+import { Summarizer } from '../../src/services/Summarizer.js';
+import {
+  EmbeddingsUnavailableError,
+  type DocumentVector,
+  type VectorStore,
+} from '../../src/services/VectorStore.js';
+
+/**
+ * 埋め込みモデルが利用できない状態のベクトルストア
+ */
+function createVectorStoreWithoutEmbeddings(): VectorStore {
+  return {
+    isInitialized: () => true,
+    search: () => Promise.reject(new EmbeddingsUnavailableError()),
+    addDocument: () => Promise.reject(new EmbeddingsUnavailableError()),
+    deleteDocument: () => Promise.resolve(),
+  } as unknown as VectorStore;
+}
+
+/**
+ * 指定したステップの完了の記録に1回だけ失敗するジャーナル
+ */
+class FailingJournal extends OperationJournal {
+  private failed = false;
+
+  constructor(
+    docsDir: string,
+    private failStep: JournalStepName
+  ) {
+    super(docsDir);
+  }
+
+  override async completeStep(entry: JournalEntry, name: JournalStepName): Promise<void> {
+    if (name === this.failStep && !this.failed) {
+      this.failed = true;
+      throw new Error(`Simulated failure on ${name}`);
+    }
+    await super.completeStep(entry, name);
+  }
+}
+
+describe('DocumentMerger', () => {
+  let project: TempProject;
+  let documentManager: DocumentManager;
+
+  beforeEach(async () => {
+    project = await createTempProject();
+    const auditLogger = new AuditLogger();
+    await auditLogger.initialize();
+    documentManager = new DocumentManager(auditLogger);
+    await documentManager.initialize();
+
+    // 関連ファイルが重複する2件のドキュメントを統合候補にする
+    for (const summary of ['Add login form', 'Validate login form']) {
+      await documentManager.createDocument({
+        files: ['src/login.ts'],
+        prompt: summary,
+        summary,
+        content: `${summary} in src/login.ts.`,
+      });
+    }
+  });
+
+  afterEach(async () => {
+    await project.cleanup();
+  });
+
+  it('completes the merge when embeddings are unavailable', async () => {
+    const journal = new OperationJournal(documentManager.getDocsDir());
+    const merger = new DocumentMerger(
+      documentManager,
+      createVectorStoreWithoutEmbeddings(),
+      new Summarizer(),
+      journal
+    );
+
+    const report = await merger.executeMerge();
+
+    expect(report).toContain('合計: 2件のドキュメントを1件に統合しました。');
+    const [merged, ...rest] = await documentManager.getAllDocuments();
+    expect(rest).toHaveLength(0);
+    expect(merged?.metadata.is_merged).toBe(true);
+    expect(await documentManager.getArchivedDocuments()).toHaveLength(2);
+    expect(await journal.listIncomplete()).toEqual([]);
+  });
+
+  it('indexes the merged document with its summary', async () => {
+    const added: DocumentVector[] = [];
+    const vectorStore = {
+      ...createVectorStoreWithoutEmbeddings(),
+      addDocument: (vector: DocumentVector) => {
+        added.push(vector);
+        return Promise.resolve();
+      },
+    } as unknown as VectorStore;
+    const merger = new DocumentMerger(
+      documentManager,
+      vectorStore,
+      new Summarizer(),
+      new OperationJournal(documentManager.getDocsDir())
+    );
+
+    await merger.executeMerge();
+
+    const [merged] = await documentManager.getAllDocuments();
+    expect(added).toEqual([
+      {
+        id: merged!.metadata.id,
+        text: `${merged!.metadata.summary}\n\n${merged!.content}`,
+        metadata: { summary: merged!.metadata.summary, created: merged!.metadata.created },
+      },
+    ]);
+  });
+
+  it('refuses to restore a merge source while the merged document is active', async () => {
+    const merger = new DocumentMerger(
+      documentManager,
+      createVectorStoreWithoutEmbeddings(),
+      new Summarizer(),
+      new OperationJournal(documentManager.getDocsDir())
+    );
+    await merger.executeMerge();
+    const [source] = await documentManager.getArchivedDocuments();
+
+    await expect(documentManager.restoreDocument(source!.metadata.id)).rejects.toThrow(
+      'Use rollback_merge to undo the merge'
+    );
+    expect(await documentManager.getArchivedDocuments()).toHaveLength(2);
+  });
+
+  it('returns the replayed result when a step fails after the merged document is created', async () => {
+    const journal = new FailingJournal(documentManager.getDocsDir(), 'archive_sources');
+    const merger = new DocumentMerger(
+      documentManager,
+      createVectorStoreWithoutEmbeddings(),
+      new Summarizer(),
+      journal
+    );
+
+    const report = await merger.executeMerge();
+
+    expect(report).toContain('合計: 2件のドキュメントを1件に統合しました。');
+    expect(await documentManager.getAllDocuments()).toHaveLength(1);
+    expect(await documentManager.getArchivedDocuments()).toHaveLength(2);
+    expect(await journal.listIncomplete()).toEqual([]);
+  });
+
+  it('rolls back and reports the failure when the merged document was not completed', async () => {
+    const journal = new FailingJournal(documentManager.getDocsDir(), 'create_merged');
+    const merger = new DocumentMerger(
+      documentManager,
+      createVectorStoreWithoutEmbeddings(),
+      new Summarizer(),
+      journal
+    );
+
+    await expect(merger.executeMerge()).rejects.toThrow('Simulated failure on create_merged');
+
+    const docs = await documentManager.getAllDocuments();
+    expect(docs.map((doc) => doc.metadata.summary).sort()).toEqual([
+      'Add login form',
+      'Validate login form',
+    ]);
+    expect(await journal.listIncomplete()).toEqual([]);
+  });
+
+  describe('recoverIncompleteMerges', () => {
+    let journal: OperationJournal;
+    let merger: DocumentMerger;
+    let sourceIds: string[];
+
+    beforeEach(async () => {
+      journal = new OperationJournal(documentManager.getDocsDir());
+      merger = new DocumentMerger(
+        documentManager,
+        createVectorStoreWithoutEmbeddings(),
+        new Summarizer(),
+        journal
+      );
+      sourceIds = (await documentManager.getAllDocuments()).map((doc) => doc.metadata.id);
+    });
+
+    /**
+     * 統合ドキュメントを作成し、統合元の1件をアーカイブした時点で中断したマージを再現
+     * @param createdMerged - 統合ドキュメントの作成の完了がジャーナルに記録されているか
+     */
+    async function interruptMerge(createdMerged: boolean): Promise<string> {
+      const entry = await journal.beginMerge(sourceIds);
+      const merged = await documentManager.createDocument({
+        files: ['src/login.ts'],
+        prompt: 'Login form',
+        summary: 'Login form',
+        content: 'Add and validate the login form in src/login.ts.',
+      });
+      await documentManager.updateDocument(merged.metadata.id, {
+        is_merged: true,
+        merged_from: sourceIds,
+      });
+      await journal.record(entry, { merged_id: merged.metadata.id });
+      if (createdMerged) {
+        await journal.completeStep(entry, 'create_merged');
+      }
+      await documentManager.archiveDocument(sourceIds[0]!);
+      await journal.record(entry, { archived_ids: [sourceIds[0]!] });
+
+      return merged.metadata.id;
+    }
+
+    it('replays the remaining steps once the merged document was created', async () => {
+      const mergedId = await interruptMerge(true);
+
+      const results = await merger.recoverIncompleteMerges();
+
+      expect(results).toEqual([expect.objectContaining({ mergedId, outcome: 'replayed' })]);
+      expect((await documentManager.getAllDocuments()).map((doc) => doc.metadata.id)).toEqual([
+        mergedId,
+      ]);
+      expect(
+        (await documentManager.getArchivedDocuments()).map((doc) => doc.metadata.id).sort()
+      ).toEqual([...sourceIds].sort());
+      expect(await journal.listIncomplete()).toEqual([]);
+    });
+
+    it('rolls back when the merged document was not completed', async () => {
+      const mergedId = await interruptMerge(false);
+
+      const results = await merger.recoverIncompleteMerges();
+
+      expect(results).toEqual([expect.objectContaining({ mergedId, outcome: 'rolled_back' })]);
+      expect(await documentManager.getDocument(mergedId)).toBeNull();
+      expect(await documentManager.getArchivedDocuments()).toEqual([]);
+      const restored = await documentManager.getDocument(sourceIds[0]!);
+      expect(restored?.metadata.change_log?.at(-1)).toEqual(
+        expect.objectContaining({ action: 'restored', reason: 'Interrupted merge rolled back' })
+      );
+      expect(await journal.listIncomplete()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,327 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi, type Mock } from 'vitest';
+import { createTempProject, type TempProject } from '../helpers/tempProject.js';
+import { AuditLogger } from '../../src/services/AuditLogger.js';
+import { DocumentManager } from '../../src/services/DocumentManager.js';
+import { DocumentMerger } from '../../src/services/DocumentMerger.js';
+import {
+  IntegrityChecker,
+  type IntegrityIssue,
+  type IntegrityIssueType,
+} from '../../src/services/IntegrityChecker.js';
+import { OperationJournal } from '../../src/services/OperationJournal.js';
+import { Summarizer } from '../../src/services/Summarizer.js';
+import { VectorStore } from '../../src/services/VectorStore.js';
+import type { Document } from '../../src/models/Document.js';
+
+/**
+ * 指定したIDが登録済みのベクトルストア（埋め込みは行わない）
+ */
+function createVectorStore(indexedIds: string[] = []) {
+  return {
+    isInitialized: () => true,
+    listDocuments: vi.fn(() => Promise.resolve(indexedIds)),
+    addDocument: vi.fn(() => Promise.resolve()),
+    deleteDocument: vi.fn(() => Promise.resolve()),
+  } as unknown as VectorStore & {
+    addDocument: Mock<VectorStore['addDocument']>;
+    deleteDocument: Mock<VectorStore['deleteDocument']>;
+  };
+}
+
+describe('IntegrityChecker', () => {
+  let project: TempProject;
+  let documentManager: DocumentManager;
+  let checker: IntegrityChecker;
+
+  beforeEach(async () => {
+    project = await createTempProject();
+    const auditLogger = new AuditLogger();
+    await auditLogger.initialize();
+    documentManager = new DocumentManager(auditLogger);
+    await documentManager.initialize();
+    checker = new IntegrityChecker(documentManager, auditLogger);
+    await checker.initialize();
+  });
+
+  afterEach(async () => {
+    await project.cleanup();
+  });
+
+  /**
+   * 指定した要約のドキュメントを作成
+   */
+  async function createDoc(summary: string): Promise<Document> {
+    return await documentManager.createDocument({
+      files: ['src/login.ts'],
+      prompt: summary,
+      summary,
+      content: `${summary} in src/login.ts.`,
+    });
+  }
+
+  /**
+   * 指定した種類の問題を検出する
+   */
+  async function findIssues(type: IntegrityIssueType): Promise<IntegrityIssue[]> {
+    const { issues } = await checker.checkIntegrity();
+    return issues.filter((issue) => issue.type === type);
+  }
+
+  /**
+   * .claude/docs 以下のファイルの内容（監査ログを除く）
+   */
+  async function snapshotDocs(): Promise<Record<string, string>> {
+    const docsDir = documentManager.getDocsDir();
+    const entries = await fs.readdir(docsDir, { recursive: true, withFileTypes: true });
+    const snapshot: Record<string, string> = {};
+
+    for (const entry of entries) {
+      const filePath = path.join(entry.parentPath, entry.name);
+      if (!entry.isFile() || filePath.includes(`${path.sep}.audit${path.sep}`)) continue;
+      snapshot[path.relative(docsDir, filePath)] = await fs.readFile(filePath, 'utf-8');
+    }
+
+    return snapshot;
+  }
+
+  it('quarantines files whose front matter cannot be parsed', async () => {
+    const brokenPath = path.join(documentManager.getDocsDir(), 'broken.md');
+    await fs.writeFile(brokenPath, '---\nsummary: [unclosed\n---\nBody\n');
+
+    const issues = await findIssues('unparseable_front_matter');
+    const result = await checker.recover(issues);
+
+    expect(result.recovered).toBe(1);
+    await expect(fs.access(brokenPath)).rejects.toThrow();
+    expect(
+      await fs.readFile(
+        path.join(documentManager.getDocsDir(), '.quarantine', 'broken.md'),
+        'utf-8'
+      )
+    ).toContain('summary: [unclosed');
+  });
+
+  it('fills in missing fields and reassigns an invalid id', async () => {
+    const invalidPath = path.join(documentManager.getDocsDir(), '2026-01-01_invalid_notes.md');
+    await fs.writeFile(
+      invalidPath,
+      '---\nid: invalid\ncreated: "2026-01-01T00:00:00.000Z"\ntags: []\nrelated_files: []\n---\n# Release notes\n'
+    );
+
+    const issues = await findIssues('invalid_metadata');
+    await checker.recover(issues);
+
+    expect(issues.map((issue) => issue.details.problems)).toEqual([
+      ['invalid id', 'missing author', 'missing summary', 'invalid updated date'],
+    ]);
+    await expect(fs.access(invalidPath)).rejects.toThrow();
+    const fixed = (await documentManager.getAllDocuments()).find(
+      (doc) => doc.metadata.summary === 'Release notes'
+    );
+    expect(fixed?.metadata.author).toBe('unknown');
+    expect(path.basename(fixed!.file_path)).toBe(documentManager.generateFileName(fixed!.metadata));
+    expect(fixed?.metadata.change_log?.at(-1)).toEqual(
+      expect.objectContaining({
+        action: 'metadata_fixed',
+        details: { fields: ['id', 'updated', 'author', 'summary'], previous_id: 'invalid' },
+      })
+    );
+    expect(await findIssues('invalid_metadata')).toEqual([]);
+  });
+
+  it('removes identical copies and reassigns the id of diverging copies', async () => {
+    const original = await createDoc('Add login form');
+    const fileContent = await fs.readFile(original.file_path, 'utf-8');
+    const copyPath = path.join(documentManager.getArchiveDir(), path.basename(original.file_path));
+    const divergedPath = path.join(documentManager.getDocsDir(), 'diverged.md');
+    await fs.mkdir(documentManager.getArchiveDir(), { recursive: true });
+    await fs.writeFile(copyPath, fileContent);
+    await fs.writeFile(
+      divergedPath,
+      fileContent.replace(/in src\/login\.ts\.\n$/, 'in src/auth.ts.\n')
+    );
+
+    const issues = await findIssues('duplicate_id');
+    await checker.recover(issues);
+
+    expect(issues).toHaveLength(1);
+    await expect(fs.access(copyPath)).rejects.toThrow();
+    await expect(fs.access(divergedPath)).rejects.toThrow();
+    expect(await fs.readFile(original.file_path, 'utf-8')).toBe(fileContent);
+    const docs = await documentManager.getAllDocuments();
+    const diverged = docs.find((doc) => doc.metadata.id !== original.metadata.id);
+    expect(docs).toHaveLength(2);
+    expect(diverged?.content).toContain('in src/auth.ts');
+    expect(diverged?.metadata.change_log?.at(-1)).toEqual(
+      expect.objectContaining({
+        action: 'id_reassigned',
+        details: { previous_id: original.metadata.id, kept_file: original.file_path },
+      })
+    );
+    expect(await findIssues('duplicate_id')).toEqual([]);
+  });
+
+  it('renames files whose name does not match the id', async () => {
+    const doc = await createDoc('Add login form');
+    const misnamedPath = path.join(documentManager.getDocsDir(), 'misnamed.md');
+    await fs.rename(doc.file_path, misnamedPath);
+    await documentManager.refreshManifest();
+
+    await checker.recover(await findIssues('filename_mismatch'));
+
+    await expect(fs.access(misnamedPath)).rejects.toThrow();
+    await expect(fs.access(doc.file_path)).resolves.toBeUndefined();
+    expect(await findIssues('filename_mismatch')).toEqual([]);
+  });
+
+  it('replays an interrupted merge through the merge recoverer', async () => {
+    const sources = [await createDoc('Add login form'), await createDoc('Validate login form')];
+    const sourceIds = sources.map((doc) => doc.metadata.id);
+    const journal = new OperationJournal(documentManager.getDocsDir());
+    const entry = await journal.beginMerge(sourceIds);
+    const merged = await createDoc('Login form');
+    await documentManager.updateDocument(merged.metadata.id, {
+      is_merged: true,
+      merged_from: sourceIds,
+    });
+    await journal.record(entry, { merged_id: merged.metadata.id });
+    await journal.completeStep(entry, 'create_merged');
+    await documentManager.archiveDocument(sourceIds[0]!);
+    await journal.record(entry, { archived_ids: [sourceIds[0]!] });
+    checker = new IntegrityChecker(
+      documentManager,
+      new AuditLogger(),
+      undefined,
+      new DocumentMerger(documentManager, createVectorStore(), new Summarizer(), journal)
+    );
+
+    const issues = await findIssues('incomplete_operation');
+    const result = await checker.recover(issues);
+
+    expect(result.fixes).toEqual([
+      expect.objectContaining({
+        description: '残りのマージのステップを再実行',
+        changes: [expect.objectContaining({ action: 'move', path: sources[1]!.file_path })],
+        applied: true,
+      }),
+    ]);
+    expect((await documentManager.getAllDocuments()).map((doc) => doc.metadata.id)).toEqual([
+      merged.metadata.id,
+    ]);
+    expect(await journal.listIncomplete()).toEqual([]);
+  });
+
+  it('removes orphan vectors and indexes documents missing from the vector index', async () => {
+    const doc = await createDoc('Add login form');
+    const vectorStore = createVectorStore(['orphan-id']);
+    checker = new IntegrityChecker(documentManager, new AuditLogger(), vectorStore);
+
+    const { issues } = await checker.checkIntegrity();
+    await checker.recover(issues);
+
+    expect(issues.map(({ type, docId }) => ({ type, docId }))).toEqual([
+      { type: 'orphan_vector', docId: 'orphan-id' },
+      { type: 'missing_from_index', docId: doc.metadata.id },
+    ]);
+    expect(vectorStore.deleteDocument).toHaveBeenCalledWith('orphan-id');
+    const indexed = await documentManager.getDocument(doc.metadata.id);
+    expect(vectorStore.addDocument).toHaveBeenCalledWith(VectorStore.toDocumentVector(indexed!));
+  });
+
+  it('reports hand-edited documents without changing them', async () => {
+    const doc = await createDoc('Add login form');
+    const edited = (await fs.readFile(doc.file_path, 'utf-8')).replace(
+      /in src\/login\.ts\.\n$/,
+      'in src/auth.ts.\n'
+    );
+    await fs.writeFile(doc.file_path, edited);
+
+    const issues = await findIssues('hand_edited');
+    const result = await checker.recover(issues);
+
+    expect(issues.map(({ docId }) => docId)).toEqual([doc.metadata.id]);
+    expect(issues[0]?.details).toEqual(
+      expect.objectContaining({ body_changed: true, front_matter_changed: false })
+    );
+    expect(result.fixes).toEqual([expect.objectContaining({ applied: false, changes: [] })]);
+    expect(await fs.readFile(doc.file_path, 'utf-8')).toBe(edited);
+  });
+
+  it('leaves files untouched on dry run', async () => {
+    const doc = await createDoc('Add login form');
+    await fs.writeFile(
+      path.join(documentManager.getDocsDir(), 'broken.md'),
+      '---\nsummary: [unclosed\n---\nBody\n'
+    );
+    await fs.writeFile(
+      path.join(documentManager.getDocsDir(), 'misnamed.md'),
+      await fs.readFile(doc.file_path, 'utf-8')
+    );
+    const { issues } = await checker.checkIntegrity();
+    const before = await snapshotDocs();
+
+    const result = await checker.recover(issues, { dryRun: true });
+
+    expect(result).toEqual(expect.objectContaining({ dryRun: true, recovered: 0 }));
+    expect(result.fixes.map((fix) => fix.issue.type).sort()).toEqual([
+      'duplicate_id',
+      'filename_mismatch',
+      'unparseable_front_matter',
+    ]);
+    expect(result.fixes.every((fix) => fix.changes.length > 0 && !fix.applied)).toBe(true);
+    expect(await snapshotDocs()).toEqual(before);
+  });
+
+  describe('missing_merge_source', () => {
+    let source: Document;
+    let merged: Document;
+
+    beforeEach(async () => {
+      source = await createDoc('Add login form');
+      merged = await createDoc('Login form');
+      await documentManager.updateDocument(merged.metadata.id, {
+        is_merged: true,
+        merged_from: [source.metadata.id],
+      });
+      await documentManager.archiveDocument(source.metadata.id);
+    });
+
+    it('archives a merge source left active by an interrupted merge', async () => {
+      const archived = await documentManager.getArchivedDocument(source.metadata.id);
+      await fs.rename(
+        archived!.file_path,
+        path.join(documentManager.getDocsDir(), path.basename(archived!.file_path))
+      );
+      await documentManager.refreshManifest();
+
+      const report = await checker.checkIntegrity();
+      await checker.recover(report.issues);
+
+      expect(report.issues.map((issue) => issue.type)).toEqual(['missing_merge_source']);
+      expect(await documentManager.getDocument(source.metadata.id)).toBeNull();
+      expect(await documentManager.getArchivedDocument(source.metadata.id)).not.toBeNull();
+    });
+
+    it('detaches a merge source restored after the merge instead of archiving it', async () => {
+      await documentManager.archiveDocument(merged.metadata.id);
+      await documentManager.restoreDocument(source.metadata.id);
+      await documentManager.restoreDocument(merged.metadata.id);
+
+      const report = await checker.checkIntegrity();
+      await checker.recover(report.issues);
+
+      expect(await documentManager.getDocument(source.metadata.id)).not.toBeNull();
+      const fixed = await documentManager.getDocument(merged.metadata.id);
+      expect(fixed?.metadata.merged_from).toEqual([]);
+      expect(fixed?.metadata.change_log?.at(-1)).toEqual(
+        expect.objectContaining({
+          action: 'merge_sources_pruned',
+          details: { removed: [], restored: [source.metadata.id] },
+        })
+      );
+      expect((await checker.checkIntegrity()).issues).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createTempProject, type TempProject } from '../helpers/tempProject.js';
+import { AuditLogger } from '../../src/services/AuditLogger.js';
+import { DocumentManager } from '../../src/services/DocumentManager.js';
+import { QualityManager } from '../../src/services/QualityManager.js';
+import { RelatedFileTracker } from '../../src/services/RelatedFileTracker.js';
+import type { Document } from '../../src/models/Document.js';
+
+const FILE = 'src/app.ts';
+
+/**
+ * コミット日時を指定してすべての変更をコミットする
+ */
+function commitAll(message: string, date: Date): void {
+  const env = {
+    ...process.env,
+    GIT_AUTHOR_DATE: date.toISOString(),
+    GIT_COMMITTER_DATE: date.toISOString(),
+  };
+  execFileSync('git', ['add', '-A', '--', 'src'], { stdio: 'pipe' });
+  execFileSync(
+    'git',
+    [
+      '-c',
+      'user.name=Test',
+      '-c',
+      'user.email=test@example.com',
+      '-c',
+      'commit.gpgsign=false',
+      'commit',
+      '--no-verify',
+      '-m',
+      message,
+    ],
+    { env, stdio: 'pipe' }
+  );
+}
+
+/**
+ * ドキュメントのupdatedから指定秒数後の日時
+ */
+function after(doc: Document, seconds: number): Date {
+  return new Date(new Date(doc.metadata.updated).getTime() + seconds * 1000);
+}
+
+describe('RelatedFileTracker', () => {
+  let project: TempProject;
+  let documentManager: DocumentManager;
+  let tracker: RelatedFileTracker;
+
+  beforeEach(async () => {
+    project = await createTempProject();
+    execFileSync('git', ['init', '-q'], { stdio: 'pipe' });
+    await fs.mkdir('src');
+    await fs.writeFile(FILE, 'export const version = 1;\n');
+    commitAll('initial', new Date(Date.now() - 3600 * 1000));
+
+    const auditLogger = new AuditLogger();
+    await auditLogger.initialize();
+    documentManager = new DocumentManager(auditLogger);
+    await documentManager.initialize();
+    tracker = new RelatedFileTracker();
+  });
+
+  afterEach(async () => {
+    await project.cleanup();
+  });
+
+  /**
+   * 作業ツリーの変更を記録したドキュメントを作成
+   */
+  async function recordChange(): Promise<Document> {
+    await fs.writeFile(FILE, 'export const version = 2;\n');
+    return await documentManager.createDocument({
+      files: [FILE],
+      prompt: 'Bump the version',
+      summary: 'Bump the version',
+      content: 'Bumped the version to 2.',
+    });
+  }
+
+  it('records the related file hashes on creation', async () => {
+    const doc = await recordChange();
+
+    expect(doc.metadata.related_file_hashes?.[FILE]).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it('ignores a commit of the recorded working-tree state', async () => {
+    const doc = await recordChange();
+    commitAll('bump version', after(doc, 60));
+
+    expect(await tracker.detectChanges([doc])).toEqual([]);
+  });
+
+  it('reports commits that change the file after the recorded state', async () => {
+    const doc = await recordChange();
+    commitAll('bump version', after(doc, 60));
+    await fs.writeFile(FILE, 'export const version = 3;\n');
+    commitAll('bump version again', after(doc, 120));
+
+    const [result] = await tracker.detectChanges([doc]);
+
+    expect(result?.changes).toEqual([expect.objectContaining({ file: FILE, type: 'modified' })]);
+  });
+
+  it('reports uncommitted changes made after the recorded state', async () => {
+    const doc = await recordChange();
+    await fs.writeFile(FILE, 'export const version = 3;\n');
+    await fs.utimes(FILE, after(doc, 60), after(doc, 60));
+
+    const [result] = await tracker.detectChanges([doc]);
+
+    expect(result?.changes).toEqual([expect.objectContaining({ file: FILE, type: 'modified' })]);
+  });
+
+  it('reports commits for documents recorded without hashes', async () => {
+    const recorded = await recordChange();
+    const doc: Document = {
+      ...recorded,
+      metadata: { ...recorded.metadata, related_file_hashes: {} },
+    };
+    commitAll('bump version', after(doc, 60));
+
+    const [result] = await tracker.detectChanges([doc]);
+
+    expect(result?.changes).toEqual([expect.objectContaining({ file: FILE, type: 'modified' })]);
+  });
+
+  it('stops reporting a staged rename once the rewritten document is reviewed', async () => {
+    const doc = await recordChange();
+    commitAll('bump version', after(doc, 60));
+    execFileSync('git', ['mv', FILE, 'src/main.ts'], { stdio: 'pipe' });
+
+    const sync = await new QualityManager(documentManager).syncRelatedFiles();
+    expect(sync.renamed.map((renamed) => renamed.metadata.related_files)).toEqual([
+      ['src/main.ts'],
+    ]);
+    expect(sync.flagged).toHaveLength(1);
+
+    const reviewed = await documentManager.markReviewed(doc.metadata.id);
+
+    expect(await tracker.detectChanges([reviewed])).toEqual([]);
+  });
+
+  it('rewrites renamed paths of pinned documents without flagging them', async () => {
+    const doc = await recordChange();
+    commitAll('bump version', after(doc, 60));
+    await documentManager.updateDocument(doc.metadata.id, { pinned: true });
+    execFileSync('git', ['mv', FILE, 'src/main.ts'], { stdio: 'pipe' });
+
+    const sync = await new QualityManager(documentManager).syncRelatedFiles();
+
+    expect(sync.flagged).toEqual([]);
+    expect(sync.skipped.map((skipped) => skipped.doc.metadata.id)).toEqual([doc.metadata.id]);
+    const [renamed] = sync.renamed;
+    expect(renamed?.metadata.related_files).toEqual(['src/main.ts']);
+    expect(renamed?.metadata.related_file_aliases).toEqual({ 'src/main.ts': [FILE] });
+    expect(renamed?.metadata.needs_review).toBeUndefined();
+  });
+
+  it('clears needs_review and records the current state on markReviewed', async () => {
+    const doc = await recordChange();
+    await fs.writeFile(FILE, 'export const version = 3;\n');
+    commitAll('bump version again', after(doc, 60));
+    await documentManager.updateDocument(doc.metadata.id, {
+      needs_review: true,
+      stale_reason: `Related files changed after the last update: ${FILE} (modified)`,
+    });
+
+    const reviewed = await documentManager.markReviewed(doc.metadata.id, { reason: 'checked' });
+
+    expect(reviewed.metadata.needs_review).toBeUndefined();
+    expect(reviewed.metadata.stale_reason).toBeUndefined();
+    expect(reviewed.metadata.related_file_hashes?.[FILE]).not.toBe(
+      doc.metadata.related_file_hashes?.[FILE]
+    );
+    expect(reviewed.metadata.change_log?.at(-1)).toEqual(
+      expect.objectContaining({ action: 'reviewed', reason: 'checked' })
+    );
+    expect(await tracker.detectChanges([reviewed])).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTempProject, type TempProject } from '../helpers/tempProject.js';
+import { AuditLogger } from '../../src/services/AuditLogger.js';
+import { ConfigManager } from '../../src/services/ConfigManager.js';
+import { DocumentManager } from '../../src/services/DocumentManager.js';
+import { QualityManager } from '../../src/services/QualityManager.js';
+import { RetentionPolicy } from '../../src/services/RetentionPolicy.js';
+import type { DocumentMetadata } from '../../src/models/Document.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 指定日数前の日時
+ */
+function daysAgo(days: number): Date {
+  return new Date(Date.now() - days * DAY_MS);
+}
+
+describe('RetentionPolicy', () => {
+  let project: TempProject;
+  let documentManager: DocumentManager;
+  let retentionPolicy: RetentionPolicy;
+
+  beforeEach(async () => {
+    project = await createTempProject({
+      documentManager: { autoArchiveDays: 30, minQualityScore: 0, archiveUnreferenced: false },
+    });
+    const auditLogger = new AuditLogger();
+    await auditLogger.initialize();
+    documentManager = new DocumentManager(auditLogger);
+    await documentManager.initialize();
+    retentionPolicy = new RetentionPolicy(
+      documentManager,
+      new QualityManager(documentManager, undefined, auditLogger),
+      auditLogger
+    );
+  });
+
+  afterEach(async () => {
+    await project.cleanup();
+  });
+
+  /**
+   * 指定日数前に作成・更新したドキュメントを作成
+   * @param metadata - 更新時に設定するメタデータ
+   */
+  async function createDoc(
+    summary: string,
+    createdDaysAgo: number,
+    updatedDaysAgo: number,
+    metadata: Partial<DocumentMetadata> = {}
+  ): Promise<string> {
+    const created = daysAgo(createdDaysAgo);
+    const updated = daysAgo(updatedDaysAgo);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(created);
+      const doc = await documentManager.createDocument({
+        files: ['src/app.ts'],
+        prompt: summary,
+        summary,
+        content: `${summary}.`,
+      });
+
+      vi.setSystemTime(updated);
+      await documentManager.updateDocument(doc.metadata.id, metadata);
+      return doc.metadata.id;
+    } finally {
+      vi.useRealTimers();
+    }
+  }
+
+  it('archives documents by the time since their last update', async () => {
+    const stale = await createDoc('Stale document', 60, 45);
+    const updated = await createDoc('Recently updated document', 60, 1);
+
+    const report = await retentionPolicy.apply();
+
+    expect(report.archived).toEqual([expect.objectContaining({ docId: stale, rules: ['age'] })]);
+    expect(await documentManager.getDocument(stale)).toBeNull();
+    expect(await documentManager.getDocument(updated)).not.toBeNull();
+  });
+
+  it('scores freshness for low_quality by the time since the last update', async () => {
+    const config = ConfigManager.getInstance();
+    config.update({
+      documentManager: {
+        ...config.get('documentManager'),
+        autoArchiveDays: 0,
+        minQualityScore: 60,
+      },
+    });
+    const stale = await createDoc('Stale document', 150, 150);
+    const updated = await createDoc('Recently updated document', 150, 1);
+
+    const report = await retentionPolicy.apply({ dryRun: true });
+
+    expect(report.archived).toEqual([
+      expect.objectContaining({ docId: stale, rules: ['low_quality'] }),
+    ]);
+    expect(report.archived.map(({ docId }) => docId)).not.toContain(updated);
+  });
+
+  it('keeps pinned, protected and merge-reviewed documents', async () => {
+    const pinned = await createDoc('Pinned document', 60, 60, { pinned: true });
+    const protectedDoc = await createDoc('Protected document', 60, 60, { protected: true });
+    const reviewed = await createDoc('Reviewed merge', 60, 60, {
+      is_merged: true,
+      merge_reviewed: true,
+    });
+
+    const report = await retentionPolicy.apply();
+
+    expect(report.archived).toEqual([]);
+    expect(
+      report.protected
+        .map(({ docId, protection }) => ({ docId, protection }))
+        .sort((a, b) => a.protection.localeCompare(b.protection))
+    ).toEqual([
+      { docId: reviewed, protection: 'merge_reviewed' },
+      { docId: pinned, protection: 'pinned' },
+      { docId: protectedDoc, protection: 'protected' },
+    ]);
+  });
+
+  it('reports candidates without archiving on dry run', async () => {
+    const stale = await createDoc('Stale document', 60, 60);
+
+    const report = await retentionPolicy.apply({ dryRun: true });
+
+    expect(report.archived.map(({ docId }) => docId)).toEqual([stale]);
+    expect(await documentManager.getDocument(stale)).not.toBeNull();
+  });
+});
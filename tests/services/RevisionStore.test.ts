@@ -0,0 +1,39 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createTempProject, type TempProject } from '../helpers/tempProject.js';
+import { RevisionStore } from '../../src/services/RevisionStore.js';
+
+const ID = '00000000-0000-4000-8000-000000000000';
+
+describe('RevisionStore', () => {
+  let project: TempProject;
+  let docsDir: string;
+  let store: RevisionStore;
+
+  beforeEach(async () => {
+    project = await createTempProject();
+    docsDir = path.join(project.root, '.claude', 'docs');
+    await fs.mkdir(docsDir, { recursive: true });
+    store = new RevisionStore(docsDir);
+  });
+
+  afterEach(async () => {
+    await project.cleanup();
+  });
+
+  it('keeps the save time of rewritten revisions', async () => {
+    const docPath = path.join(docsDir, 'doc.md');
+    await fs.writeFile(docPath, 'token: secret-value\n');
+    await store.save(ID, docPath);
+    const [saved] = await store.list(ID);
+    const savedAt = new Date('2026-01-02T03:04:05.000Z');
+    await fs.utimes(saved!.file_path, savedAt, savedAt);
+
+    const count = await store.rewrite(ID, (content) => content.replace('secret-value', '***'));
+
+    expect(count).toBe(1);
+    expect(await fs.readFile(saved!.file_path, 'utf-8')).toBe('token: ***\n');
+    expect((await store.list(ID))[0]?.saved).toBe(savedAt.toISOString());
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { SensitiveDataDetector } from '../../src/services/SensitiveDataDetector.js';
+
+describe('SensitiveDataDetector', () => {
+  const detector = new SensitiveDataDetector();
+
+  it('passes the built-in rule fixtures', () => {
+    expect(SensitiveDataDetector.verifyBuiltinRules()).toEqual([]);
+  });
+
+  describe('high entropy strings', () => {
+    it('masks random strings after a context keyword', () => {
+      expect(detector.sanitize('token: aB3xZ9qLmN7pQ2rS8tUv')).toBe('token: [REDACTED]');
+      expect(detector.sanitize('AUTH_TOKEN=Zk9pQ2xLmN4rT8vW')).toBe('AUTH_TOKEN=[REDACTED]');
+    });
+
+    it('masks long random strings without a keyword', () => {
+      expect(detector.sanitize('value aB3xZ9qLmN7pQ2rS8tUvWx1Y')).toBe('value [REDACTED]');
+    });
+
+    it('matches keywords on word boundaries only', () => {
+      const text = 'author: Zk9pQ2xLmN4rT8vW';
+      expect(detector.sanitize(text)).toBe(text);
+    });
+
+    it.each([
+      'auth: use authMiddlewareV2Handler',
+      'resetPassword calls resetPassword2FAHandler',
+      'see docs/2026-10-19_4f3a2b1c_wire-up-the-retention-polic.md',
+      '.claude/docs/2026-10-19_4f3a2b1c_add-auth-token-refresh.md',
+      'integrity: sha512-z4PhNX7vuL3xVChQ1m2AB9Yg5AULVxXcg/SpIdNs6c5H0NE8XYXysP+DGNKHfuwvY7kxvUdBeoGlODJ6+SfaPg==',
+      'commit 3f786850e387550fdab836ed7e6dc881de23001b',
+    ])('keeps ordinary content: %s', (text) => {
+      expect(detector.sanitize(text)).toBe(text);
+      expect(detector.detect(text)).toEqual([]);
+    });
+  });
+
+  describe('PII_IPv4', () => {
+    const pii = { categories: ['pii' as const] };
+
+    it('masks IP addresses', () => {
+      expect(detector.sanitize('client 203.104.153.1 connected', pii)).toBe(
+        'client [PII:IP] connected'
+      );
+    });
+
+    it.each(['v1.2.3.4', 'version 1.2.3.4', 'Version: 1.2.3.4', 'build 1.2.3.4', 'pkg@1.2.3.4'])(
+      'keeps version strings: %s',
+      (text) => {
+        expect(detector.sanitize(text, pii)).toBe(text);
+      }
+    );
+  });
+});
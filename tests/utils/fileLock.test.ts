@@ -0,0 +1,89 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LockHeldError, withFileLock } from '../../src/utils/fileLock.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('withFileLock', () => {
+  let dir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'recorder-lock-test-'));
+    lockPath = path.join(dir, '.lock');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps a lock held longer than staleMs from being taken over', async () => {
+    const options = { staleMs: 200, retryDelayMs: 50, retries: 40 };
+    const events: string[] = [];
+
+    const first = withFileLock(
+      lockPath,
+      'long_operation',
+      async () => {
+        events.push('first:start');
+        await sleep(700);
+        events.push('first:end');
+      },
+      options
+    );
+    await sleep(20);
+    const second = withFileLock(
+      lockPath,
+      'waiting_operation',
+      () => {
+        events.push('second');
+        return Promise.resolve();
+      },
+      options
+    );
+
+    await Promise.all([first, second]);
+
+    expect(events).toEqual(['first:start', 'first:end', 'second']);
+  });
+
+  it('removes a lock that has not been refreshed within staleMs', async () => {
+    await fs.writeFile(
+      lockPath,
+      JSON.stringify({
+        pid: process.pid,
+        hostname: os.hostname(),
+        operation: 'abandoned',
+        acquired: new Date(0).toISOString(),
+      })
+    );
+    const past = new Date(Date.now() - 60 * 1000);
+    await fs.utimes(lockPath, past, past);
+
+    const result = await withFileLock(lockPath, 'next', () => Promise.resolve('done'), {
+      staleMs: 1000,
+      retries: 1,
+    });
+
+    expect(result).toBe('done');
+    await expect(fs.access(lockPath)).rejects.toThrow();
+  });
+
+  it('reports the holder when the lock stays busy', async () => {
+    await fs.writeFile(
+      lockPath,
+      JSON.stringify({
+        pid: process.pid,
+        hostname: os.hostname(),
+        operation: 'busy',
+        acquired: new Date().toISOString(),
+      })
+    );
+
+    await expect(
+      withFileLock(lockPath, 'other', () => Promise.resolve(), { retries: 1, retryDelayMs: 10 })
+    ).rejects.toBeInstanceOf(LockHeldError);
+  });
+});
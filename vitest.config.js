@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    // サービスは process.cwd() とConfigManagerのシングルトンを使うため、テストファイルごとにプロセスを分ける
+    pool: 'forks',
+    env: {
+      DEBUG: 'error',
+    },
+  },
+});